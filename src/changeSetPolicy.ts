@@ -0,0 +1,131 @@
+import * as CloudFormation from "@aws-sdk/client-cloudformation";
+
+export interface ChangeSetPolicy {
+  // Resource types that must not be replaced or removed, where "*" matches
+  // anything, e.g. "AWS::RDS::*" or "AWS::DynamoDB::Table".
+  protectedResourceTypes?: string[];
+  // Logical IDs that must not be replaced or removed, also with "*".
+  protectedLogicalIds?: string[];
+}
+
+export interface ChangeSetPolicyViolation {
+  logicalId: string;
+  resourceType: string;
+  action: "Replace" | "Remove";
+  // For Replace, "True" or "Conditional".
+  replacement?: string;
+}
+
+// Finds the resource changes that replace or remove resources protected by
+// the policy, other than those in allowReplacement. Conditional replacements
+// are included, as they are only known when the change set executes.
+export default function checkChangeSetPolicy(
+  changes: CloudFormation.Change[],
+  policy: ChangeSetPolicy,
+  allowReplacement: string[] = [],
+): ChangeSetPolicyViolation[] {
+  const violations: ChangeSetPolicyViolation[] = [];
+  for (const change of changes) {
+    const resourceChange = change.ResourceChange;
+    if (change.Type !== "Resource" || !resourceChange) {
+      continue;
+    }
+    const logicalId = resourceChange.LogicalResourceId!;
+    const resourceType = resourceChange.ResourceType!;
+    if (
+      allowReplacement.includes(logicalId) ||
+      !isProtected(policy, logicalId, resourceType)
+    ) {
+      continue;
+    }
+    if (resourceChange.Action === "Remove") {
+      violations.push({ logicalId, resourceType, action: "Remove" });
+    } else if (
+      resourceChange.Action === "Modify" &&
+      (resourceChange.Replacement === "True" ||
+        resourceChange.Replacement === "Conditional")
+    ) {
+      violations.push({
+        logicalId,
+        resourceType,
+        action: "Replace",
+        replacement: resourceChange.Replacement,
+      });
+    }
+  }
+  return violations;
+}
+
+export function formatChangeSetPolicyViolations(
+  violations: ChangeSetPolicyViolation[],
+): string {
+  return violations
+    .map(({ logicalId, resourceType, action, replacement }) =>
+      action === "Replace"
+        ? `  ${logicalId} (${resourceType}): Replace, Replacement: ${replacement}`
+        : `  ${logicalId} (${resourceType}): Remove`,
+    )
+    .join("\n");
+}
+
+// Returns a stack policy to use while executing a change set, that also
+// allows updating the allowed logical IDs. Since a Deny always wins over an
+// Allow, the allowed resources are also removed from the Resource of Deny
+// statements, which only works if they name them explicitly.
+export function createStackPolicyOverride(
+  stackPolicyBody: string,
+  allowReplacement: string[],
+): string {
+  const policy = JSON.parse(stackPolicyBody) as {
+    Statement: StackPolicyStatement[];
+  };
+  const allowed = allowReplacement.map((id) => `LogicalResourceId/${id}`);
+  const statements = policy.Statement.flatMap((statement) => {
+    if (statement.Effect !== "Deny" || statement.Resource === undefined) {
+      return [statement];
+    }
+    const resources = ([] as string[])
+      .concat(statement.Resource)
+      .filter((resource) => !allowed.includes(resource));
+    return resources.length ? [{ ...statement, Resource: resources }] : [];
+  });
+  return JSON.stringify({
+    ...policy,
+    Statement: [
+      ...statements,
+      {
+        Effect: "Allow",
+        Principal: "*",
+        Action: "Update:*",
+        Resource: allowed,
+      },
+    ],
+  });
+}
+
+interface StackPolicyStatement {
+  Effect: "Allow" | "Deny";
+  Resource?: string | string[];
+  [key: string]: unknown;
+}
+
+function isProtected(
+  { protectedResourceTypes = [], protectedLogicalIds = [] }: ChangeSetPolicy,
+  logicalId: string,
+  resourceType: string,
+) {
+  return (
+    protectedResourceTypes.some((pattern) =>
+      matchesPattern(pattern, resourceType),
+    ) ||
+    protectedLogicalIds.some((pattern) => matchesPattern(pattern, logicalId))
+  );
+}
+
+function matchesPattern(pattern: string, value: string) {
+  const source = pattern
+    .split("*")
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}$`).test(value);
+}
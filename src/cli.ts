@@ -1,41 +1,171 @@
 #!/usr/bin/env node
 import * as fs from "node:fs";
+import * as path from "node:path";
 
 import * as AWS from "@aws-sdk/types";
 import * as CloudFormation from "@aws-sdk/client-cloudformation";
+import * as S3 from "@aws-sdk/client-s3";
 import * as Credentials from "@aws-sdk/credential-providers";
 
 import deployStack, {
+  applyChangeSet,
+  deleteStack,
   DeployStackError,
+  DeployHooks,
+  DeployHookStage,
+  deployStacks,
+  DriftCheck,
   createTableWaiter,
+  createTableWaiterGroup,
   createEventLogWaiter,
+  cacheParameterResolvers,
+  defaultParameterResolvers,
+  describeNoEchoParameterKeys,
+  formatChanges,
+  formatStackFailures,
+  generateImportResources,
+  getKey,
+  getNoEchoParameterKeys,
+  getStackOutputs,
+  InvalidCompleteStatusStackError,
+  maskParameterValue,
+  parseTemplate,
+  planStack,
+  PollingOptions,
+  pruneChangeSets,
+  StackDeployment,
 } from "./";
 
+import createHookCommands, { deployHookStages } from "./hookCommands";
 import {
   argsSymbol,
   checkForUnknownOptions,
   getFlagOption,
+  getNumberOption,
+  getStringListOption,
   getStringOption,
   OptionError,
   Options,
   parseOptions,
 } from "./options";
+import {
+  inferOutputsFormat,
+  OutputsFileOptions,
+  outputsFormats,
+  outputsKeyCases,
+  writeOutputsFile,
+} from "./outputsFile";
+import {
+  readChangeSetPolicyFile,
+  readImportFile,
+  readParametersFile,
+  readStacksConfig,
+  readTagsFile,
+  readTargetsFile,
+  StacksConfig,
+} from "./valuesFile";
 
 const helpMessage = `\
 Usage:
   deploy-stack \\
+    [credential options] \\
+    (--region REGION... | --targets-file PATH) \\
+    [--concurrency N] \\
+    --stack-name NAME \\
+    (--template-path PATH | --template-url URL | --use-previous-template) \\
+    [additional options] \\
+    [policy options] \\
+    [hook options] \\
+    [template parameters]
+
+  deploy-stack plan \\
     [credential options] \\
     --region REGION \\
     --stack-name NAME \\
-    --template-path PATH \\
+    (--template-path PATH | --template-url URL | --use-previous-template) \\
+    --plan-file PATH \\
     [additional options] \\
+    [policy options] \\
+    [hook options] \\
     [template parameters]
 
+  deploy-stack apply \\
+    [credential options] \\
+    --region REGION \\
+    --change-set ARN \\
+    [--disable-rollback] \\
+    [--termination-protection] \\
+    [--poll-interval SECONDS] \\
+    [--timeout MINUTES] \\
+    [policy options] \\
+    [hook options] \\
+    [outputs options]
+
+  deploy-stack delete \\
+    [credential options] \\
+    --region REGION \\
+    --stack-name NAME \\
+    [--force] \\
+    [--retain-resources ID,ID,...] \\
+    [--empty-buckets] \\
+    [--poll-interval SECONDS] \\
+    [--timeout MINUTES]
+
+  deploy-stack prune-change-sets \\
+    [credential options] \\
+    --region REGION \\
+    --stack-name NAME \\
+    [--older-than HOURS]
+
+  deploy-stack generate-import-file \\
+    [credential options] \\
+    --region REGION \\
+    --template-path PATH \\
+    --import-file PATH \\
+    [--stack-name NAME] \\
+    [--physical-id ID]...
+
+  deploy-stack up \\
+    [credential options] \\
+    [--region REGION] \\
+    [--config PATH] \\
+    [--concurrency N] \\
+    [--poll-interval SECONDS] \\
+    [--timeout MINUTES] \\
+    [hook options]
+
   deploy-stack --help
 
   deploy-stack --version
 
 
+Commands:
+    (default)                          # Create a change set, prompt to
+                                       # deploy it, then execute it.
+    plan                               # Create a change set and write its
+                                       # ARN and changes to --plan-file as
+                                       # JSON, without executing it. With no
+                                       # changes, it still succeeds, and
+                                       # writes a null "changeSetId".
+    apply                              # Execute a change set created by
+                                       # plan, if it is still available and
+                                       # the stack has not been updated
+                                       # since.
+    delete                             # Prompt with the stack resources,
+                                       # then delete the stack.
+    prune-change-sets                  # Prompt with the change sets left by
+                                       # earlier deploys, then delete them.
+    generate-import-file               # Write an --import-file for the
+                                       # resources of a template with
+                                       # literal names, e.g. BucketName.
+    up                                 # Plan all the stacks in a config
+                                       # file, prompt once, then deploy
+                                       # them in dependency order, in
+                                       # parallel where possible. Stacks
+                                       # planned later, with new outputs,
+                                       # prompt again.
+
+
 Credential options:
    [--profile NAME]                    # Profile name in ~/.aws/credentials
    [--access-key-id KEY_ID             # Explicit access key id
@@ -51,6 +181,10 @@ Required options:
     --stack-name NAME                  # CloudFormation stack name to create
     --template-path PATH               # Path to CloudFormation stack template
                                        # file. (YAML or JSON)
+ or --template-url URL                 # S3 URL of an already uploaded
+                                       # template.
+ or --use-previous-template            # Reuse the template of the existing
+                                       # stack.
 
 Additional options:
    [--capabilities NAME,NAME,...]      # CloudFormation capabilities to add.
@@ -58,13 +192,210 @@ Additional options:
                                        # Valid values are currently:
                                        #   CAPABILITY_IAM
                                        #   CAPABILITY_NAMED_IAM
+   [--auto-capabilities]               # Add the capabilities the template
+                                       # requires, instead of failing.
+   [--skip-preflight-check]            # Skip validating the template and
+                                       # checking the parameters against it
+                                       # before creating the change set.
    [--tag:NAME VALUE]...               # Tags to add to all created resources
                                        # e.g.:
                                        # --tag:env dev --tag:team sales
+   [--template-bucket NAME]            # S3 bucket to upload the template to
+                                       # if it is too large to deploy inline.
+   [--template-prefix PREFIX]          # Key prefix for uploaded templates.
+   [--artifact-bucket NAME]            # S3 bucket to upload local paths in
+                                       # the template to, like
+                                       # "aws cloudformation package":
+                                       # Lambda Code, Serverless CodeUri and
+                                       # nested stack TemplateURL.
+                                       # Directories are zipped.
+   [--artifact-prefix PREFIX]          # Key prefix for uploaded artifacts.
+   [--parameters-file PATH]...         # Template parameters file, as any of:
+                                       # - AWS CLI JSON:
+                                       #   [{"ParameterKey": "NAME",
+                                       #     "ParameterValue": "VALUE"}]
+                                       # - JSON or YAML map: {"NAME": "VALUE"}
+                                       # - CodePipeline template config:
+                                       #   {"Parameters": {"NAME": "VALUE"}}
+                                       # - .env file: NAME=VALUE
+   [--tags-file PATH]...               # Tags file, as any of the formats for
+                                       # --parameters-file, with "Key" and
+                                       # "Value" or "Tags" instead.
+                                       # Later files override earlier files,
+                                       # and command line values override
+                                       # files.
+   [--verbose]                         # Print the merged parameters and tags.
+   [--show-template-diff]              # Show the differences between the
+                                       # deployed and new template and
+                                       # parameters before deploying.
+   [--drift-check off|warn|fail]       # Detect drift of an existing stack
+                                       # before updating it, and warn or fail
+                                       # if it has drifted, or fail also if
+                                       # detection fails. Default: off
+   [--disable-rollback]                # Leave resources as they are if the
+                                       # deploy fails, instead of rolling
+                                       # back. The next deploy then offers to
+                                       # roll back or retry.
+   [--resources-to-skip ID,ID,...]     # Resources to skip when continuing to
+                                       # roll back a stack that failed to
+                                       # roll back.
+   [--role-arn ARN]                    # IAM service role CloudFormation uses
+                                       # to create, update and delete the
+                                       # stack resources.
+   [--notification-arn ARN]...         # SNS topic to send stack events to.
+   [--rollback-alarm ARN]...           # CloudWatch alarm that rolls back the
+                                       # deploy if it goes into ALARM.
+   [--rollback-monitoring-minutes N]   # Also monitor the alarms for this long
+                                       # after the deploy completes.
+   [--termination-protection]          # Enable termination protection after
+                                       # the deploy (also for apply).
+   [--resource-types TYPE,TYPE,...]    # Resource types the template may use,
+                                       # e.g. AWS::S3::*,Custom::*
+   [--import-file PATH]                # Import existing resources into the
+                                       # stack, instead of creating or
+                                       # updating it. JSON or YAML list of:
+                                       #   - ResourceType: AWS::S3::Bucket
+                                       #     LogicalResourceId: Bucket
+                                       #     ResourceIdentifier:
+                                       #       BucketName: my-bucket
+                                       # Each must be in the template with
+                                       # DeletionPolicy: Retain.
+   [--poll-interval SECONDS]           # Time between polling the stack
+                                       # status. Default: 2
+   [--timeout MINUTES]                 # Fail if the deploy takes longer.
+
+    Pressing Ctrl-C while waiting for the stack offers to cancel the update
+    (and wait for it to roll back), detach (leaving it running), or keep
+    waiting. Without a terminal, it cancels the update.
+
+Delete options:
+   [--force]                           # Disable termination protection if
+                                       # it is enabled, instead of failing.
+   [--retain-resources ID,ID,...]      # Resources to keep when retrying the
+                                       # delete of a stack that failed to
+                                       # delete.
+   [--empty-buckets]                   # Empty the S3 buckets of the stack
+                                       # first, so they can be deleted.
+
+Prune options:
+   [--older-than HOURS]                # Only delete change sets created
+                                       # longer ago. Default: 24
+
+    Deploys offer to reuse a pending change set with the same template,
+    parameters and options, e.g. left by an interrupted deploy, unless it
+    has values for NoEcho parameters. Pruning deletes those that were not
+    reused, and a REVIEW_IN_PROGRESS stack left without change sets.
+
+Generate import file options:
+   [--stack-name NAME]                 # Skip the resources already in this
+                                       # stack.
+   [--physical-id ID]...               # Only import the resources with this
+                                       # name, e.g. an existing bucket name.
+
+Target options, for deploy:
+    --region REGION...                 # Deploy to each region. All change
+                                       # sets are created first, then
+                                       # deployed after a single prompt.
+    --targets-file PATH                # JSON or YAML list of targets:
+                                       #   - region: us-east-1
+                                       #   - region: eu-west-1
+                                       #     profile: prod
+                                       #     roleArn: arn:aws:iam::...
+                                       # where roleArn is assumed with the
+                                       # profile or default credentials.
+   [--concurrency N]                   # The most targets, or up stacks, to
+                                       # deploy at once. Default: 4
+
+    Output for each target is prefixed with its region, and profile or
+    account. If a target fails, the others still deploy, and the failures
+    are listed at the end. --template-bucket, --artifact-bucket and
+    --outputs-file require a single target.
+
+Up options:
+   [--region REGION]                   # Region for stacks that do not set
+                                       # one in the config file.
+   [--config PATH]                     # JSON or YAML config file, default:
+                                       # deploy-stack.config(.yaml|.yml|.json)
+                                       # e.g.:
+                                       #   region: us-east-1
+                                       #   stacks:
+                                       #     network:
+                                       #       template: network.yaml
+                                       #     api:
+                                       #       stackName: my-app-api
+                                       #       template: api.yaml
+                                       #       parameters:
+                                       #         VpcId: \${network.VpcId}
+                                       #       tags:
+                                       #         app: my-app
+                                       #       capabilities:
+                                       #         - CAPABILITY_IAM
+                                       # where \${ID.OUTPUT} is an output of
+                                       # another stack, which is deployed
+                                       # first.
+
+Policy options, for deploy, plan and apply:
+   [--policy-file PATH]                # JSON or YAML file of resources that
+                                       # must not be replaced or removed:
+                                       #   protectedResourceTypes:
+                                       #     - AWS::RDS::*
+                                       #     - AWS::DynamoDB::Table
+                                       #   protectedLogicalIds:
+                                       #     - Database
+                                       # Change sets that would replace or
+                                       # remove them are rejected before
+                                       # prompting.
+   [--allow-replacement ID]...         # Allow replacing or removing this
+                                       # protected resource.
+   [--stack-policy-file PATH]          # Stack policy JSON to set on the
+                                       # stack. Resources passed to
+                                       # --allow-replacement are temporarily
+                                       # allowed to update.
+
+Hook options, for deploy, plan, apply and up:
+   [--hook STAGE=COMMAND]...           # Run a command at a stage of the
+                                       # deploy, one of: beforeChangeSet,
+                                       # changeSetReady, beforeExecute,
+                                       # afterExecute, onFailure,
+                                       # onNoChanges.
+                                       # A .js or .cjs path is loaded as a
+                                       # module exporting a function, that
+                                       # can return false. Anything else is
+                                       # run as a shell command with a JSON
+                                       # context on stdin: stage, stackName,
+                                       # changeSetId, changeSetType, and
+                                       # changes, stack or error.
+                                       # Returning false or a non-zero exit
+                                       # code vetoes the deploy.
+
+Outputs options, for deploy and apply:
+   [--outputs-file PATH]               # Write the stack outputs to a file,
+                                       # also when there are no changes.
+   [--outputs-format FORMAT]           # One of:
+                                       #   json: {"NAME": "VALUE"}
+                                       #   env: NAME=VALUE
+                                       #   shell: export NAME='VALUE'
+                                       #   yaml: NAME: VALUE
+                                       # Default: inferred from the
+                                       # --outputs-file extension.
+   [--outputs-prefix PREFIX]           # Prefix for each output name.
+   [--outputs-case CASE]               # One of:
+                                       #   preserve: ApiUrl (default)
+                                       #   upper-snake: API_URL
+
 
 Template parameters:
     NAME=VALUE                         # Adds a value for a CloudFormation
                                        # template parameter
+    NAME=@previous                     # Reuses the existing stack's value
+                                       # for a parameter
+    NAME=env:VAR                       # Uses an environment variable
+    NAME=file:PATH                     # Uses the contents of a file
+    NAME=stack:STACK.OUTPUT            # Uses an output of another stack
+    NAME=ssm:NAME                      # Uses an SSM parameter, decrypted
+    NAME=prompt:[MESSAGE]              # Prompts for the value, hidden
+                                       # Values of NoEcho parameters are
+                                       # masked in all output.
 
 Example:
 
@@ -88,95 +419,767 @@ async function main(options: Options) {
     return;
   }
 
+  const command = getCommand(options);
+
+  const defaultCredentials = getCredentials(options);
+  const targets = getTargets(options, defaultCredentials);
+  if (!targets.length && command !== "up") {
+    throw new OptionError("--region is required");
+  }
+  if (targets.length > 1 && command !== "deploy") {
+    throw new OptionError(`${command} does not support multiple targets`);
+  }
+  // The commands other than deploy only use the first target.
+  const { region, credentials } = targets[0] ?? {
+    region: undefined,
+    credentials: defaultCredentials,
+  };
+  const polling = getPollingOptions(options);
+
+  const abortController = new AbortController();
+  handleInterrupts(abortController);
+  const signal = abortController.signal;
+
+  const waiter = process.stdin.isTTY
+    ? createTableWaiter()
+    : createEventLogWaiter();
+
+  const client = new CloudFormation.CloudFormationClient({
+    region,
+    credentials,
+  });
+
+  switch (command) {
+    case "deploy": {
+      const outputsFile = getOutputsFileOptions(options);
+      const concurrency = getConcurrencyOption(options);
+      if (targets.length > 1) {
+        if (outputsFile) {
+          throw new OptionError("--outputs-file requires a single target");
+        }
+        const stackOptions = await getStackOptions(
+          options,
+          region,
+          credentials,
+        );
+        if (stackOptions.templateBucket || stackOptions.artifactBucket) {
+          throw new OptionError(
+            "--template-bucket and --artifact-bucket require a single target",
+          );
+        }
+        // The same for each target, so e.g. prompt: only asks once.
+        const parameterResolvers = cacheParameterResolvers(
+          defaultParameterResolvers,
+          ["env", "file", "prompt"],
+        );
+        await deployStacks({
+          createWaiter: process.stdin.isTTY
+            ? createTableWaiterGroup()
+            : (id, logger) => createEventLogWaiter(logger),
+          signal,
+          polling,
+          concurrency,
+          stacks: Object.fromEntries(
+            targets.map((target) => [
+              target.label,
+              {
+                ...stackOptions,
+                parameterResolvers,
+                cancelOnAbort: true,
+                client: new CloudFormation.CloudFormationClient({
+                  region: target.region,
+                  credentials: target.credentials,
+                }),
+              },
+            ]),
+          ),
+        });
+        break;
+      }
+      const result = await deployStack({
+        waiter,
+        signal,
+        cancelOnAbort: true,
+        polling,
+        client,
+        ...(await getStackOptions(options, region, credentials)),
+      });
+      if (outputsFile && result.stack) {
+        writeOutputsFile(outputsFile.path, result.outputs, outputsFile);
+      }
+      break;
+    }
+
+    case "plan": {
+      const planFile = getStringOption(options, "plan-file");
+      const stackOptions = await getStackOptions(options, region, credentials);
+      const plan = await planStack({
+        waiter,
+        signal,
+        polling,
+        client,
+        ...stackOptions,
+      });
+      // Always written, so a plan file left by an earlier run can't be
+      // applied by mistake.
+      fs.writeFileSync(
+        planFile,
+        JSON.stringify(
+          plan
+            ? { ...plan, summary: formatChanges(plan.changes) }
+            : {
+                changeSetId: null,
+                stackName: stackOptions.stackName,
+                changes: [],
+                summary: formatChanges([]),
+              },
+          null,
+          2,
+        ),
+      );
+      console.log("Wrote plan to %s", planFile);
+      break;
+    }
+
+    case "apply": {
+      const changeSetId = getStringOption(options, "change-set");
+      const disableRollback = getFlagOption(options, "disable-rollback");
+      const terminationProtection = getFlagOption(
+        options,
+        "termination-protection",
+      );
+      const policyOptions = getPolicyOptions(options);
+      const hooks = getHooks(options);
+      const outputsFile = getOutputsFileOptions(options);
+      checkForUnknownOptions(options);
+      const stack = await applyChangeSet({
+        waiter,
+        signal,
+        cancelOnAbort: true,
+        polling,
+        client,
+        changeSetId,
+        disableRollback,
+        terminationProtection: terminationProtection || undefined,
+        hooks,
+        ...policyOptions,
+      });
+      if (outputsFile) {
+        writeOutputsFile(outputsFile.path, getStackOutputs(stack), outputsFile);
+      }
+      break;
+    }
+
+    case "delete": {
+      const stackName = getStringOption(options, "stack-name");
+      const force = getFlagOption(options, "force");
+      const retainResources = getStringOption(
+        options,
+        "retain-resources",
+        null,
+      );
+      const emptyBuckets = getFlagOption(options, "empty-buckets");
+      checkForUnknownOptions(options);
+      await deleteStack({
+        waiter,
+        signal,
+        polling,
+        client,
+        stackName,
+        force,
+        retainResources: retainResources?.split(","),
+        emptyBuckets: emptyBuckets
+          ? new S3.S3Client({ region, credentials })
+          : undefined,
+      });
+      break;
+    }
+
+    case "prune-change-sets": {
+      const stackName = getStringOption(options, "stack-name");
+      const olderThan = getNumberOption(options, "older-than", 24);
+      checkForUnknownOptions(options);
+      await pruneChangeSets({
+        client,
+        stackName,
+        olderThan: olderThan * 60 * 60 * 1000,
+      });
+      break;
+    }
+
+    case "generate-import-file": {
+      const templatePath = getStringOption(options, "template-path");
+      const importFile = getStringOption(options, "import-file");
+      const stackName =
+        getStringOption(options, "stack-name", null) ?? undefined;
+      const physicalIds = getStringListOption(options, "physical-id");
+      checkForUnknownOptions(options);
+      if (!fs.existsSync(templatePath)) {
+        throw new OptionError("Template path does not exist: " + templatePath);
+      }
+      const { resources, unmatched } = await generateImportResources({
+        client,
+        templateBody: fs.readFileSync(templatePath, "utf-8"),
+        physicalIds: physicalIds.length ? physicalIds : undefined,
+        stackName,
+      });
+      if (unmatched.length) {
+        console.warn("No resources matched: %s", unmatched.join(", "));
+      }
+      fs.writeFileSync(importFile, JSON.stringify(resources, null, 2));
+      console.log("Wrote %d resources to %s", resources.length, importFile);
+      break;
+    }
+
+    case "up": {
+      const configPath =
+        getStringOption(options, "config", null) ?? findStacksConfig();
+      const hooks = getHooks(options);
+      const concurrency = getConcurrencyOption(options);
+      checkForUnknownOptions(options);
+      await deployStacks({
+        createWaiter: process.stdin.isTTY
+          ? createTableWaiterGroup()
+          : (id, logger) => createEventLogWaiter(logger),
+        signal,
+        polling,
+        concurrency,
+        stacks: getStackDeployments(
+          readStacksConfig(configPath),
+          region,
+          credentials,
+          hooks,
+        ),
+      });
+      break;
+    }
+  }
+
+  console.log("Done");
+  // Not sure what's keeping it running...
+  process.exit(0);
+}
+
+// On Ctrl-C while waiting, offers to cancel the update, detach or keep
+// waiting. A second Ctrl-C exits immediately.
+function handleInterrupts(abortController: AbortController) {
+  let prompting = false;
+  process.on("SIGINT", async () => {
+    if (prompting || abortController.signal.aborted) {
+      process.exit(130);
+    }
+    if (!process.stdin.isTTY) {
+      console.error("Interrupted, cancelling...");
+      abortController.abort();
+      return;
+    }
+    prompting = true;
+    process.stdout.write(
+      "\nInterrupted: [c]ancel update, [d]etach, or [k]eep waiting? ",
+    );
+    const key = await getKey();
+    process.stdout.write("\n");
+    prompting = false;
+    switch (key) {
+      case "c":
+        abortController.abort();
+        break;
+      case "d":
+      case "\x03":
+        console.log("Detached, the stack operation will continue");
+        process.exit(130);
+    }
+  });
+}
+
+function getPollingOptions(options: Options): PollingOptions {
+  const pollInterval = getNumberOption(options, "poll-interval", null);
+  const timeout = getNumberOption(options, "timeout", null);
+  // A zero interval would poll without pausing, a zero timeout fail at once.
+  if (pollInterval !== null && pollInterval <= 0) {
+    throw new OptionError("--poll-interval must be positive");
+  }
+  if (timeout !== null && timeout <= 0) {
+    throw new OptionError("--timeout must be positive");
+  }
+  return {
+    interval: pollInterval !== null ? pollInterval * 1000 : undefined,
+    timeout: timeout !== null ? timeout * 60_000 : undefined,
+  };
+}
+
+function getConcurrencyOption(options: Options): number {
+  const concurrency = getNumberOption(options, "concurrency", 4);
+  if (concurrency < 1) {
+    throw new OptionError("--concurrency must be at least 1");
+  }
+  return concurrency;
+}
+
+const commands = [
+  "deploy",
+  "plan",
+  "apply",
+  "delete",
+  "prune-change-sets",
+  "generate-import-file",
+  "up",
+] as const;
+
+type Command = typeof commands[number];
+
+function getCommand(options: Options): Command {
+  const args = options[argsSymbol];
+  if (args.length && !args[0].includes("=")) {
+    const command = args.shift()!;
+    if (!(commands as readonly string[]).includes(command)) {
+      throw new OptionError(`Unknown command: ${command}`);
+    }
+    return command as Command;
+  }
+  return "deploy";
+}
+
+const stacksConfigPaths = [
+  "deploy-stack.config",
+  "deploy-stack.config.yaml",
+  "deploy-stack.config.yml",
+  "deploy-stack.config.json",
+];
+
+function findStacksConfig() {
+  const configPath = stacksConfigPaths.find((path) => fs.existsSync(path));
+  if (!configPath) {
+    throw new OptionError(
+      `Must pass --config, or create one of: ${stacksConfigPaths.join(", ")}`,
+    );
+  }
+  return configPath;
+}
+
+function getStackDeployments(
+  config: StacksConfig,
+  defaultRegion: string | undefined,
+  credentials: AWS.CredentialProvider | undefined,
+  hooks: DeployHooks | undefined,
+): Record<string, StackDeployment> {
+  const stacks: Record<string, StackDeployment> = {};
+  for (const [id, stack] of Object.entries(config.stacks)) {
+    const region = stack.region ?? config.region ?? defaultRegion;
+    if (region === undefined) {
+      throw new OptionError(
+        `Stack ${id} does not have a region, pass --region or set one in the config file`,
+      );
+    }
+    if (!fs.existsSync(stack.templatePath)) {
+      throw new OptionError(
+        `Stack ${id} template path does not exist: ${stack.templatePath}`,
+      );
+    }
+    const { capabilities } = stack;
+    assertAll(capabilities, assertCapability);
+    stacks[id] = {
+      cancelOnAbort: true,
+      client: new CloudFormation.CloudFormationClient({ region, credentials }),
+      stackName: stack.stackName,
+      templateBody: fs.readFileSync(stack.templatePath, "utf-8"),
+      templateDirectory: path.dirname(stack.templatePath),
+      parameters: stack.parameters,
+      parameterResolvers: defaultParameterResolvers,
+      tags: stack.tags,
+      capabilities,
+      hooks,
+    };
+  }
+  return stacks;
+}
+
+function getOutputsFileOptions(
+  options: Options,
+): (OutputsFileOptions & { path: string }) | null {
+  const path = getStringOption(options, "outputs-file", null);
+  const format = getStringOption(options, "outputs-format", null);
+  const prefix = getStringOption(options, "outputs-prefix", null) ?? undefined;
+  const keyCase = getStringOption(options, "outputs-case", "preserve");
+
+  if (path === null) {
+    if (format !== null || prefix !== undefined || keyCase !== "preserve") {
+      throw new OptionError("Outputs options require --outputs-file");
+    }
+    return null;
+  }
+  assertOneOf("outputs-case", keyCase, outputsKeyCases);
+  if (format === null) {
+    const inferred = inferOutputsFormat(path);
+    if (!inferred) {
+      throw new OptionError(
+        `Cannot infer the format of --outputs-file ${path}, pass --outputs-format`,
+      );
+    }
+    return { path, format: inferred, prefix, keyCase };
+  }
+  assertOneOf("outputs-format", format, outputsFormats);
+  return { path, format, prefix, keyCase };
+}
+
+function getPolicyOptions(options: Options) {
+  const policyFile = getStringOption(options, "policy-file", null);
+  const allowReplacement = getStringListOption(options, "allow-replacement");
+  const stackPolicyFile = getStringOption(options, "stack-policy-file", null);
+
+  let stackPolicyBody: string | undefined;
+  if (stackPolicyFile !== null) {
+    if (!fs.existsSync(stackPolicyFile)) {
+      throw new OptionError(`File does not exist: ${stackPolicyFile}`);
+    }
+    stackPolicyBody = fs.readFileSync(stackPolicyFile, "utf-8");
+    try {
+      JSON.parse(stackPolicyBody);
+    } catch (e) {
+      throw new OptionError(`${stackPolicyFile}: ${(e as Error).message}`);
+    }
+  }
+
+  return {
+    changeSetPolicy:
+      policyFile !== null ? readChangeSetPolicyFile(policyFile) : undefined,
+    allowReplacement,
+    stackPolicyBody,
+  };
+}
+
+function getHooks(options: Options): DeployHooks | undefined {
+  const commands: Partial<Record<DeployHookStage, string[]>> = {};
+  for (const hook of getStringListOption(options, "hook")) {
+    const match = hook.match(/^(\w+)=(.+)$/s);
+    if (!match) {
+      throw new OptionError(`--hook must be STAGE=COMMAND: ${hook}`);
+    }
+    const [, stage, command] = match;
+    assertOneOf("hook", stage, deployHookStages);
+    commands[stage] = [...(commands[stage] ?? []), command];
+  }
+  return Object.keys(commands).length
+    ? createHookCommands(commands)
+    : undefined;
+}
+
+interface Target {
+  // Labels the output of the target, e.g. "123456789012/us-east-1".
+  label: string;
+  region: string;
+  credentials: AWS.CredentialProvider | undefined;
+}
+
+// Reads the regions and accounts to deploy to from --region, which can be
+// repeated, or --targets-file.
+function getTargets(
+  options: Options,
+  defaultCredentials: AWS.CredentialProvider | undefined,
+): Target[] {
+  const regions = getStringListOption(options, "region");
+  const targetsFile = getStringOption(options, "targets-file", null);
+  if (targetsFile === null) {
+    // Otherwise they would deploy the same stack under the same label.
+    for (const [index, region] of regions.entries()) {
+      if (regions.indexOf(region) !== index) {
+        throw new OptionError(`--region ${region} is repeated`);
+      }
+    }
+    return regions.map((region) => ({
+      label: region,
+      region,
+      credentials: defaultCredentials,
+    }));
+  }
+  if (regions.length) {
+    throw new OptionError("Must pass only one of --region or --targets-file");
+  }
+
+  const targets = readTargetsFile(targetsFile).map(
+    ({ region, profile, roleArn }): Target => {
+      let credentials =
+        profile !== undefined
+          ? Credentials.fromIni({ profile })
+          : defaultCredentials;
+      if (roleArn !== undefined) {
+        credentials = Credentials.fromTemporaryCredentials({
+          params: { RoleArn: roleArn, RoleSessionName: "deploy-stack" },
+          masterCredentials: credentials,
+          clientConfig: { region },
+        });
+      }
+      const account = roleArn?.split(":")[4] ?? profile;
+      return {
+        label: account ? `${account}/${region}` : region,
+        region,
+        credentials,
+      };
+    },
+  );
+  for (const [index, target] of targets.entries()) {
+    if (targets.findIndex(({ label }) => label === target.label) !== index) {
+      throw new OptionError(`${targetsFile}: duplicate target ${target.label}`);
+    }
+  }
+  return targets;
+}
+
+function getCredentials(options: Options): AWS.CredentialProvider | undefined {
   const profile = getStringOption(options, "profile", null);
   const accessKeyId = getStringOption(options, "access-key-id", null);
   const secretAccessKey = getStringOption(options, "secret-access-key", null);
 
-  const region = getStringOption(options, "region");
+  if (profile !== null) {
+    if (accessKeyId) {
+      throw new OptionError(
+        "Must pass only one of --profile or --access-key-id",
+      );
+    }
+    return Credentials.fromIni({ profile });
+  }
+  if (accessKeyId || secretAccessKey) {
+    if (!accessKeyId || !secretAccessKey) {
+      throw new OptionError(
+        "Must pass both --access-key-id and --secret-access-key if one is used",
+      );
+    }
+    return async () => ({ accessKeyId, secretAccessKey });
+  }
+  return undefined;
+}
 
+// Reads the options describing the stack to deploy, shared by the deploy and
+// plan commands, and checks there are no options left over.
+async function getStackOptions(
+  options: Options,
+  region: string | undefined,
+  credentials: AWS.CredentialProvider | undefined,
+) {
   const stackName = getStringOption(options, "stack-name");
-  const templatePath = getStringOption(options, "template-path");
+  const templatePath = getStringOption(options, "template-path", null);
+  const templateUrl = getStringOption(options, "template-url", null);
+  const usePreviousTemplate = getFlagOption(options, "use-previous-template");
+  const templateBucketName = getStringOption(options, "template-bucket", null);
+  const templatePrefix = getStringOption(options, "template-prefix", null);
+  const artifactBucketName = getStringOption(options, "artifact-bucket", null);
+  const artifactPrefix = getStringOption(options, "artifact-prefix", null);
 
   const capabilitiesString = getStringOption(options, "capabilities", null);
   const capabilities =
     capabilitiesString !== null ? capabilitiesString.split(",") : undefined;
 
-  const tags: CloudFormation.Tag[] = [];
+  const autoCapabilities = getFlagOption(options, "auto-capabilities");
+  const policyOptions = getPolicyOptions(options);
+  const hooks = getHooks(options);
+  const skipPreflightCheck = getFlagOption(options, "skip-preflight-check");
+
+  const verbose = getFlagOption(options, "verbose");
+  const showTemplateDiff = getFlagOption(options, "show-template-diff");
+  const driftCheck = getStringOption(options, "drift-check", "off");
+  const disableRollback = getFlagOption(options, "disable-rollback");
+  const resourcesToSkipString = getStringOption(
+    options,
+    "resources-to-skip",
+    null,
+  );
+  const resourcesToSkip =
+    resourcesToSkipString !== null
+      ? resourcesToSkipString.split(",")
+      : undefined;
+  const roleArn = getStringOption(options, "role-arn", null) ?? undefined;
+  const notificationArns = getStringListOption(options, "notification-arn");
+  const rollbackAlarms = getStringListOption(options, "rollback-alarm");
+  const rollbackMonitoringMinutes = getNumberOption(
+    options,
+    "rollback-monitoring-minutes",
+    null,
+  );
+  const terminationProtection = getFlagOption(
+    options,
+    "termination-protection",
+  );
+  const resourceTypesString = getStringOption(options, "resource-types", null);
+  const importFile = getStringOption(options, "import-file", null);
+
+  const tagsByKey = new Map<string, CloudFormation.Tag>();
+  for (const tagsPath of getStringListOption(options, "tags-file")) {
+    for (const tag of readTagsFile(tagsPath)) {
+      tagsByKey.set(tag.Key!, tag);
+    }
+  }
   for (const name of Object.keys(options)) {
     const match = name.match(/^tag:(.*)$/);
     if (match) {
-      const value = options[name];
-      if (value === true) {
-        throw new OptionError(`--${name} requires a value`);
-      }
-      tags.push({ Key: match[1], Value: value });
-      delete options[name];
+      const value = getStringOption(options, name);
+      tagsByKey.set(match[1], { Key: match[1], Value: value });
     }
   }
+  const tags = Array.from(tagsByKey.values());
 
-  const parameters: CloudFormation.Parameter[] = [];
+  const parametersByKey = new Map<string, CloudFormation.Parameter>();
+  for (const parametersPath of getStringListOption(
+    options,
+    "parameters-file",
+  )) {
+    for (const parameter of readParametersFile(parametersPath)) {
+      parametersByKey.set(parameter.ParameterKey!, parameter);
+    }
+  }
   const args = options[argsSymbol];
   while (args.length) {
     const arg = args[0];
     const match = arg.match(/^(\w+)=(.+)$/);
-    if (match) {
-      args.shift();
-      parameters.push({
+    if (!match) {
+      break;
+    }
+    args.shift();
+    if (match[2] === "@previous") {
+      parametersByKey.set(match[1], {
+        ParameterKey: match[1],
+        UsePreviousValue: true,
+      });
+    } else {
+      parametersByKey.set(match[1], {
         ParameterKey: match[1],
         ParameterValue: match[2],
       });
     }
   }
+  const parameters = Array.from(parametersByKey.values());
 
   checkForUnknownOptions(options);
 
   if (capabilities) {
     assertAll(capabilities, assertCapability);
   }
+  assertDriftCheck(driftCheck);
 
-  let credentials: AWS.CredentialProvider | undefined;
-  if (profile !== null) {
-    if (accessKeyId) {
-      throw new OptionError(
-        "Must pass only one of --profile or --access-key-id",
-      );
-    }
-    credentials = Credentials.fromIni({ profile });
-  } else if (accessKeyId || secretAccessKey) {
-    if (!accessKeyId || !secretAccessKey) {
-      throw new OptionError(
-        "Must pass both --access-key-id and --secret-access-key if one is used",
-      );
-    }
-    credentials = async () => ({ accessKeyId, secretAccessKey });
+  if (
+    [templatePath !== null, templateUrl !== null, usePreviousTemplate].filter(
+      Boolean,
+    ).length !== 1
+  ) {
+    throw new OptionError(
+      "Must pass exactly one of --template-path, --template-url or --use-previous-template",
+    );
   }
-
-  if (!fs.existsSync(templatePath)) {
+  if (templatePath !== null && !fs.existsSync(templatePath)) {
     throw new OptionError("Template path does not exist: " + templatePath);
   }
+  if (templatePrefix !== null && templateBucketName === null) {
+    throw new OptionError("--template-prefix requires --template-bucket");
+  }
+  if (artifactPrefix !== null && artifactBucketName === null) {
+    throw new OptionError("--artifact-prefix requires --artifact-bucket");
+  }
+  if (artifactBucketName !== null && templatePath === null) {
+    throw new OptionError("--artifact-bucket requires --template-path");
+  }
+  if (rollbackMonitoringMinutes !== null && !rollbackAlarms.length) {
+    throw new OptionError(
+      "--rollback-monitoring-minutes requires --rollback-alarm",
+    );
+  }
+  if (importFile !== null && usePreviousTemplate) {
+    throw new OptionError(
+      "--import-file requires --template-path or --template-url",
+    );
+  }
 
-  const waiter = process.stdin.isTTY
-    ? createTableWaiter()
-    : createEventLogWaiter();
+  const templateBody =
+    templatePath !== null ? fs.readFileSync(templatePath, "utf-8") : undefined;
 
-  const client = new CloudFormation.CloudFormationClient({
-    region,
-    credentials,
-  });
+  if (verbose) {
+    const noEchoKeys =
+      templateBody !== undefined
+        ? getNoEchoParameterKeys(parseTemplate(templateBody))
+        : await describeNoEchoParameterKeys(
+            new CloudFormation.CloudFormationClient({ region, credentials }),
+            templateUrl !== null
+              ? { TemplateURL: templateUrl }
+              : { StackName: stackName },
+          ).catch(
+            // e.g. the stack doesn't exist yet, so mask them all.
+            () =>
+              new Set(parameters.map((parameter) => parameter.ParameterKey!)),
+          );
+    console.log("Parameters:");
+    for (const parameter of parameters) {
+      console.log(
+        "  %s: %s",
+        parameter.ParameterKey,
+        parameter.UsePreviousValue
+          ? "(previous value)"
+          : maskParameterValue(
+              noEchoKeys,
+              parameter.ParameterKey!,
+              parameter.ParameterValue,
+            ),
+      );
+    }
+    console.log("Tags:");
+    for (const tag of tags) {
+      console.log("  %s: %s", tag.Key, tag.Value);
+    }
+  }
+
+  const s3Client = new S3.S3Client({ region, credentials });
+  const templateBucket =
+    templateBucketName !== null
+      ? {
+          client: s3Client,
+          bucket: templateBucketName,
+          prefix: templatePrefix ?? undefined,
+        }
+      : undefined;
+  const artifactBucket =
+    artifactBucketName !== null
+      ? {
+          client: s3Client,
+          bucket: artifactBucketName,
+          prefix: artifactPrefix ?? undefined,
+        }
+      : undefined;
 
-  await deployStack({
-    waiter,
-    client,
-    templateBody: fs.readFileSync(templatePath, "utf-8"),
+  return {
+    templateBody,
+    templateUrl: templateUrl ?? undefined,
+    usePreviousTemplate,
+    templateBucket,
+    artifactBucket,
+    templateDirectory:
+      templatePath !== null ? path.dirname(templatePath) : undefined,
     stackName,
     parameters,
+    parameterResolvers: defaultParameterResolvers,
     capabilities,
     tags,
-  });
-
-  console.log("Done");
-  // Not sure what's keeping it running...
-  process.exit(0);
+    roleArn,
+    notificationArns: notificationArns.length ? notificationArns : undefined,
+    rollbackConfiguration: rollbackAlarms.length
+      ? {
+          RollbackTriggers: rollbackAlarms.map((arn) => ({
+            Arn: arn,
+            Type: "AWS::CloudWatch::Alarm",
+          })),
+          MonitoringTimeInMinutes: rollbackMonitoringMinutes ?? undefined,
+        }
+      : undefined,
+    resourceTypes: resourceTypesString?.split(","),
+    importResources:
+      importFile !== null ? readImportFile(importFile) : undefined,
+    // Only enabled, so stacks deployed without the flag keep their setting.
+    terminationProtection: terminationProtection || undefined,
+    showTemplateDiff,
+    driftCheck,
+    disableRollback,
+    resourcesToSkip,
+    autoCapabilities,
+    skipPreflightCheck,
+    hooks,
+    ...policyOptions,
+  };
 }
 
 function assertAll<T, R extends T>(
@@ -200,6 +1203,22 @@ function assertCapability(
   }
 }
 
+function assertDriftCheck(value: string): asserts value is DriftCheck {
+  assertOneOf("drift-check", value, ["off", "warn", "fail"] as const);
+}
+
+function assertOneOf<T extends string>(
+  name: string,
+  value: string,
+  values: readonly T[],
+): asserts value is T {
+  if (!(values as readonly string[]).includes(value)) {
+    throw new OptionError(
+      `--${name} not valid: ${value}. Must be one of: ${values.join(", ")}`,
+    );
+  }
+}
+
 if (require.main === module) {
   main(parseOptions()).catch((error) => {
     if (error instanceof OptionError) {
@@ -207,6 +1226,12 @@ if (require.main === module) {
       process.exit(2);
     } else if (error instanceof DeployStackError) {
       console.error(error.message);
+      if (
+        error instanceof InvalidCompleteStatusStackError &&
+        error.failures.length
+      ) {
+        console.error("Root cause:\n%s", formatStackFailures(error.failures));
+      }
       process.exit(3);
     } else {
       console.error(error.stack);
@@ -1,8 +1,14 @@
 import * as CloudFormation from "@aws-sdk/client-cloudformation";
-import { StackWaiter } from "./deployStack";
+import { Logger, StackWaiter } from "./deployStack";
+import { formatNestedPath, isNestedStack } from "./nestedStacks";
 
-export default function createEventLogWaiter(): StackWaiter {
-  let lastEventPrinted = new Date();
+export default function createEventLogWaiter(
+  logger: Logger = console,
+): StackWaiter {
+  const startTime = new Date();
+  // Stacks to print events for, by name or ID: the top-level stack and any
+  // nested stacks found in its events.
+  const stacks = new Map<string, { path: string[]; lastEventPrinted: Date }>();
   let maxResourceTypeLength: number | undefined;
   let maxResourceIdLength: number | undefined;
 
@@ -12,7 +18,7 @@ export default function createEventLogWaiter(): StackWaiter {
     },
     async complete({ client, reason, stackName, changes }) {
       await printNewEvents(client, stackName, changes);
-      console.log("Waiting for %s complete", reason);
+      logger.log("Waiting for %s complete", reason);
     },
   };
 
@@ -21,9 +27,6 @@ export default function createEventLogWaiter(): StackWaiter {
     stackName: string,
     changes: CloudFormation.Change[] | null,
   ) {
-    let firstEventRead: Date | undefined;
-    let lastEventRead: Date | undefined;
-
     if (!maxResourceIdLength) {
       if (changes) {
         maxResourceTypeLength = maxStringLength(
@@ -55,42 +58,79 @@ export default function createEventLogWaiter(): StackWaiter {
       }
     }
 
-    for await (const eventResponse of CloudFormation.paginateDescribeStackEvents(
-      { client },
-      { StackName: stackName },
-    )) {
-      let events = eventResponse.StackEvents || [];
+    if (!stacks.has(stackName)) {
+      stacks.set(stackName, { path: [], lastEventPrinted: startTime });
+    }
 
-      if (events.length) {
-        if (!firstEventRead) {
-          firstEventRead = events[0].Timestamp;
+    const newEvents: { path: string[]; event: CloudFormation.StackEvent }[] =
+      [];
+    // Nested stacks found while reading events are added to the map, and are
+    // then also visited by this loop.
+    for (const [name, stack] of stacks) {
+      for (const event of await readNewEvents(client, name, stack)) {
+        newEvents.push({ path: stack.path, event });
+        if (isNestedStack(event) && !stacks.has(event.PhysicalResourceId!)) {
+          stacks.set(event.PhysicalResourceId!, {
+            path: [...stack.path, event.LogicalResourceId!],
+            lastEventPrinted: startTime,
+          });
         }
-        lastEventRead = events[events.length - 1].Timestamp;
+      }
+    }
 
-        const newEvents = events.filter(
-          (event) => event.Timestamp! > lastEventPrinted,
-        );
+    newEvents.sort(
+      (a, b) => b.event.Timestamp!.valueOf() - a.event.Timestamp!.valueOf(),
+    );
+    for (const { path, event } of newEvents) {
+      const resourceId = formatNestedPath(path, event.LogicalResourceId);
+      maxResourceIdLength = Math.max(maxResourceIdLength, resourceId.length);
+      logger.log(
+        "%s",
+        [
+          event.Timestamp?.toISOString().padEnd(24),
+          event.ResourceType?.padEnd(maxResourceTypeLength!),
+          resourceId.padEnd(maxResourceIdLength),
+          event.ResourceStatus?.padEnd(18),
+          event.ResourceStatusReason,
+        ].join(" | "),
+      );
+    }
+  }
+}
 
-        for (const event of newEvents) {
-          console.log(
-            [
-              event.Timestamp?.toISOString().padEnd(24),
-              event.ResourceType?.padEnd(maxResourceTypeLength!),
-              event.LogicalResourceId?.padEnd(maxResourceIdLength),
-              event.ResourceStatus?.padEnd(18),
-              event.ResourceStatusReason,
-            ].join(" | "),
-          );
-        }
-      }
-      if (lastEventRead! <= lastEventPrinted) {
-        break;
+async function readNewEvents(
+  client: CloudFormation.CloudFormationClient,
+  stackName: string,
+  stack: { lastEventPrinted: Date },
+) {
+  const newEvents: CloudFormation.StackEvent[] = [];
+  let firstEventRead: Date | undefined;
+  let lastEventRead: Date | undefined;
+
+  for await (const eventResponse of CloudFormation.paginateDescribeStackEvents(
+    { client },
+    { StackName: stackName },
+  )) {
+    let events = eventResponse.StackEvents || [];
+
+    if (events.length) {
+      if (!firstEventRead) {
+        firstEventRead = events[0].Timestamp;
       }
+      lastEventRead = events[events.length - 1].Timestamp;
+
+      newEvents.push(
+        ...events.filter((event) => event.Timestamp! > stack.lastEventPrinted),
+      );
     }
-    if (firstEventRead) {
-      lastEventPrinted = firstEventRead;
+    if (lastEventRead! <= stack.lastEventPrinted) {
+      break;
     }
   }
+  if (firstEventRead) {
+    stack.lastEventPrinted = firstEventRead;
+  }
+  return newEvents;
 }
 
 function maxStringLength(values: string[], min = 0) {
@@ -3,59 +3,128 @@ import logUpdate from "log-update";
 import { getBorderCharacters, table } from "table";
 
 import { StackWaiter } from "./deployStack";
+import {
+  describeStackResourceTree,
+  formatNestedPath,
+  isNestedStack,
+} from "./nestedStacks";
 
 export default function createTableWaiter(): StackWaiter {
   return {
     async progress({ client, stack }) {
       if (!stack) return;
-      const [resources, events] = await Promise.all([
-        client.send(
-          new CloudFormation.DescribeStackResourcesCommand({
-            StackName: stack.StackName,
-          }),
-        ),
-        client.send(
+      logUpdate(await renderProgress(client, stack, true, 5));
+    },
+    async complete({ reason }) {
+      if (reason !== "EXECUTING" && reason !== "DELETING") {
+        logUpdate.clear();
+      } else {
+        logUpdate.done();
+      }
+    },
+  };
+}
+
+// Creates waiters for stacks deployed at the same time, e.g. with the
+// createWaiter option of deployStacks(), that render the status and recent
+// events of each stack together under its label.
+export function createTableWaiterGroup(): (label: string) => StackWaiter {
+  const sections = new Map<string, string>();
+  const waiting = new Set<string>();
+
+  return (label) => ({
+    async progress({ client, stack }) {
+      if (!stack) return;
+      waiting.add(label);
+      sections.set(label, await renderProgress(client, stack, false, 3));
+      render();
+    },
+    async complete({ reason }) {
+      waiting.delete(label);
+      if (reason !== "EXECUTING" && reason !== "DELETING") {
+        sections.delete(label);
+      }
+      if (waiting.size) {
+        render();
+      } else if (sections.size) {
+        render();
+        logUpdate.done();
+        sections.clear();
+      } else {
+        logUpdate.clear();
+      }
+    },
+  });
+
+  function render() {
+    logUpdate(
+      Array.from(sections, ([label, section]) => `[${label}] ${section}`).join(
+        "\n",
+      ),
+    );
+  }
+}
+
+async function renderProgress(
+  client: CloudFormation.CloudFormationClient,
+  stack: CloudFormation.Stack,
+  showResources: boolean,
+  eventCount: number,
+) {
+  const resources = await describeStackResourceTree(client, stack.StackName!);
+  // Recent events of the stack and all nested stacks, newest first.
+  const events = (
+    await Promise.all(
+      [
+        { path: [], stackName: stack.StackName! },
+        ...resources
+          .filter(({ resource }) => isNestedStack(resource))
+          .map(({ path, resource }) => ({
+            path: [...path, resource.LogicalResourceId!],
+            stackName: resource.PhysicalResourceId!,
+          })),
+      ].map(async ({ path, stackName }) => {
+        const response = await client.send(
           new CloudFormation.DescribeStackEventsCommand({
-            StackName: stack.StackName,
+            StackName: stackName,
           }),
-        ),
-      ]);
+        );
+        return response.StackEvents!.map((event) => ({ path, event }));
+      }),
+    )
+  )
+    .flat()
+    .sort(
+      (a, b) => b.event.Timestamp!.valueOf() - a.event.Timestamp!.valueOf(),
+    );
 
-      const now = Date.now();
-      logUpdate(`\
+  const now = Date.now();
+  const resourcesTable = renderTable(
+    ["Logical", "Physical", "Type", "Status", "Reason"],
+    resources.map(({ path, resource }) => [
+      // Nested stack resources are indented under their stack resource
+      "  ".repeat(path.length) + resource.LogicalResourceId,
+      resource.PhysicalResourceId,
+      resource.ResourceType,
+      resource.ResourceStatus,
+      resource.ResourceStatusReason,
+    ]),
+  );
+  return `\
 Stack status: ${stack.StackStatus}: ${stack.StackStatusReason}
-Resources:
-${renderTable(
-  ["Logical", "Physical", "Type", "Status", "Reason"],
-  resources.StackResources!.map((resource) => [
-    resource.LogicalResourceId,
-    resource.PhysicalResourceId,
-    resource.ResourceType,
-    resource.ResourceStatus,
-    resource.ResourceStatusReason,
-  ]),
-)}
-Last 5 events:
+${showResources ? `Resources:\n${resourcesTable}\n` : ""}\
+Last ${eventCount} events:
 ${renderTable(
   ["Age", "Logical", "Status", "Reason"],
   events
-    .StackEvents!.slice(0, 5)
-    .map((event) => [
+    .slice(0, eventCount)
+    .map(({ path, event }) => [
       `${((now - event.Timestamp!.valueOf()) / 1000).toFixed()}s`,
-      event.LogicalResourceId,
+      formatNestedPath(path, event.LogicalResourceId),
       event.ResourceStatus,
       event.ResourceStatusReason,
     ]),
-)}`);
-    },
-    async complete({ reason }) {
-      if (reason !== "EXECUTING") {
-        logUpdate.clear();
-      } else {
-        logUpdate.done();
-      }
-    },
-  };
+)}`;
 }
 
 function renderTable(header: string[], data: any[][]) {
@@ -0,0 +1,153 @@
+import * as CloudFormation from "@aws-sdk/client-cloudformation";
+import * as S3 from "@aws-sdk/client-s3";
+
+import {
+  createPrompt,
+  Logger,
+  PollingOptions,
+  StackWaiter,
+} from "./deployStack";
+import diagnoseStackFailures from "./diagnoseStackFailures";
+import emptyBucket from "./emptyBucket";
+import {
+  InvalidCompleteStatusStackError,
+  RetainResourcesNotAllowedError,
+  TerminationProtectionEnabledError,
+} from "./errors";
+import {
+  describeStackResourceTree,
+  formatNestedPath,
+  StackResourceTreeItem,
+} from "./nestedStacks";
+import {
+  createStackContext,
+  describeStack,
+  waitUntilDone,
+} from "./stackPolling";
+
+export interface DeleteStackOptions {
+  logger?: Logger;
+  prompt?: (message: string) => boolean | PromiseLike<boolean>;
+  waiter?: StackWaiter;
+  // As for DeployStackOptions, but a delete cannot be cancelled.
+  signal?: AbortSignal;
+  polling?: PollingOptions;
+  // Disable termination protection of the stack instead of throwing
+  // TerminationProtectionEnabledError.
+  force?: boolean;
+  // Resources to leave in place when retrying a DELETE_FAILED stack, e.g. a
+  // bucket that could not be emptied. Throws RetainResourcesNotAllowedError
+  // for other statuses.
+  retainResources?: string[];
+  // Empty the S3 buckets created by the stack with this client before
+  // deleting, as CloudFormation cannot delete buckets with objects.
+  emptyBuckets?: S3.S3Client;
+
+  client: CloudFormation.CloudFormationClient;
+  stackName: string;
+}
+
+// Prompts with the resources of the stack, then deletes it. Resolves to false
+// if the stack does not exist or deleting it was declined.
+export default async function deleteStack(
+  options: DeleteStackOptions,
+): Promise<boolean> {
+  const {
+    logger = console,
+    prompt = createPrompt(process.stdin, process.stdout),
+    force = false,
+    retainResources,
+    emptyBuckets,
+    client,
+    stackName,
+  } = options;
+  const context = createStackContext({ ...options, logger });
+
+  let stack = await describeStack(client, stackName);
+  if (stack?.StackStatus?.endsWith("_IN_PROGRESS")) {
+    logger.log(
+      "Stack is in progress with status %O, waiting...",
+      stack.StackStatus,
+    );
+    stack = await waitUntilDone(context, "IN_PROGRESS_EXISTING", stackName);
+  }
+  if (!stack || stack.StackStatus === "DELETE_COMPLETE") {
+    logger.log("Stack does not exist");
+    return false;
+  }
+
+  if (retainResources?.length && stack.StackStatus !== "DELETE_FAILED") {
+    throw new RetainResourcesNotAllowedError(stack);
+  }
+
+  // Checked before prompting, so a protected stack fails without asking.
+  if (stack.EnableTerminationProtection && !force) {
+    throw new TerminationProtectionEnabledError(stack);
+  }
+
+  const resources = await describeStackResourceTree(client, stackName);
+  if (
+    !(await prompt(
+      `Resources:\n${formatResources(resources)}\nDelete stack '${stackName}'?`,
+    ))
+  ) {
+    return false;
+  }
+
+  if (stack.EnableTerminationProtection) {
+    logger.log("Disabling termination protection...");
+    await client.send(
+      new CloudFormation.UpdateTerminationProtectionCommand({
+        StackName: stackName,
+        EnableTerminationProtection: false,
+      }),
+    );
+  }
+
+  if (emptyBuckets) {
+    for (const { path, resource } of resources) {
+      if (
+        resource.ResourceType === "AWS::S3::Bucket" &&
+        resource.PhysicalResourceId &&
+        resource.ResourceStatus !== "DELETE_COMPLETE" &&
+        // Retained resources can only be in the top-level stack.
+        !(
+          path.length === 0 &&
+          retainResources?.includes(resource.LogicalResourceId!)
+        )
+      ) {
+        await emptyBucket(emptyBuckets, resource.PhysicalResourceId, logger);
+      }
+    }
+  }
+
+  logger.log("Deleting stack...");
+  await client.send(
+    new CloudFormation.DeleteStackCommand({
+      StackName: stackName,
+      RetainResources: retainResources,
+    }),
+  );
+  // Deleted stacks can only be described by ID.
+  const deleted = await waitUntilDone(context, "DELETING", stack.StackId!);
+  if (deleted && deleted.StackStatus !== "DELETE_COMPLETE") {
+    throw new InvalidCompleteStatusStackError(
+      deleted,
+      "DELETE",
+      // Best effort, so it doesn't replace this error.
+      await diagnoseStackFailures(client, deleted.StackId!).catch(() => []),
+    );
+  }
+  return true;
+}
+
+function formatResources(resources: StackResourceTreeItem[]) {
+  return resources
+    .map(
+      ({ path, resource }) =>
+        `  ${formatNestedPath(path, resource.LogicalResourceId)} (${
+          resource.ResourceType
+        }): ${resource.PhysicalResourceId ?? "(not created)"}`,
+    )
+    .join("\n");
+}
@@ -1,52 +1,59 @@
+import * as crypto from "node:crypto";
 import { URLSearchParams } from "node:url";
-import * as util from "node:util";
 
 import * as CloudFormation from "@aws-sdk/client-cloudformation";
 
-const sleep = util.promisify(setTimeout);
+import checkChangeSetPolicy, {
+  ChangeSetPolicy,
+  createStackPolicyOverride,
+} from "./changeSetPolicy";
+import detectStackDrift, { formatStackDrifts } from "./detectStackDrift";
+import diagnoseStackFailures from "./diagnoseStackFailures";
+import diffTemplates, {
+  diffParameterValues,
+  formatTemplateDifferences,
+} from "./diffTemplates";
+import {
+  ChangeSetNotAvailableError,
+  ChangeSetPolicyViolationError,
+  DeployHookVetoedError,
+  DeployStackAbortedError,
+  DriftDetectionFailedError,
+  InvalidCompleteStatusStackError,
+  InvalidImportResourcesError,
+  InvalidStatusBeforeUpdateStackError,
+  InvalidTemplateOptionsError,
+  maxTemplateBodySize,
+  NoPreviousValuesError,
+  PreflightValidationError,
+  StackDriftedError,
+  TemplateTooLargeError,
+} from "./errors";
+import formatChanges, { ChangeFormatter } from "./formatChanges";
+import { checkImportResources } from "./importResources";
+import packageTemplate from "./packageTemplate";
+import resolveParameterValues, {
+  ParameterResolvers,
+} from "./parameterResolvers";
+import parseTemplate, {
+  describeNoEchoParameterKeys,
+  getNoEchoParameterKeys,
+  maskParameterValue,
+} from "./parseTemplate";
+import preflightCheck, { TemplateLocation } from "./preflightCheck";
+import {
+  changeSetNamePrefix,
+  createPoller,
+  createStackContext,
+  describeStack,
+  listChangeSets,
+  retryThrottled,
+  StackContext,
+  waitUntilDone,
+} from "./stackPolling";
+import uploadToBucket, { BucketLocation } from "./uploadToBucket";
 
-export class DeployStackError extends Error {}
-
-export class InvalidStatusBeforeUpdateStackError extends DeployStackError {
-  public stackDetails: CloudFormation.Stack;
-
-  constructor(stackDetails: CloudFormation.Stack) {
-    const { StackName, StackStatus, StackStatusReason } = stackDetails;
-    super(
-      `Stack '${StackName}' cannot be updated when it has status ${StackStatus}: ${StackStatusReason}`,
-    );
-    this.stackDetails = stackDetails;
-  }
-}
-
-export class InvalidCompleteStatusStackError extends DeployStackError {
-  public stackDetails: CloudFormation.Stack;
-
-  constructor(
-    stackDetails: CloudFormation.Stack,
-    type: "CREATE" | "UPDATE" | "DELETE",
-  ) {
-    const { StackName, StackStatus, StackStatusReason } = stackDetails;
-    super(
-      `Stack '${StackName}' failed to ${type}, it now has status ${StackStatus}: ${StackStatusReason}`,
-    );
-    this.stackDetails = stackDetails;
-  }
-}
-
-export class ChangeSetNotAvailableError extends DeployStackError {
-  public changeSetDetails: CloudFormation.ChangeSetSummary;
-
-  constructor(changeSetDetails: CloudFormation.ChangeSetSummary) {
-    const { ExecutionStatus, Status, StatusReason } = changeSetDetails;
-    super(`\
-Change set cannot be executed:
-  execution status: ${ExecutionStatus}
-  status: ${Status}
-  reason: ${StatusReason}`);
-    this.changeSetDetails = changeSetDetails;
-  }
-}
+export * from "./errors";
 
 export interface Logger {
   log(format: string, ...args: any[]): void;
@@ -55,7 +62,10 @@ export interface Logger {
 export type StackWaiterReason =
   | "DELETE_EXISTING"
   | "IN_PROGRESS_EXISTING"
-  | "EXECUTING";
+  | "ROLLBACK_EXISTING"
+  | "EXECUTING"
+  | "CANCELLING"
+  | "DELETING";
 
 export interface StackWaiterContext {
   client: CloudFormation.CloudFormationClient;
@@ -70,59 +80,470 @@ export interface StackWaiter {
   complete: (context: StackWaiterContext) => void | PromiseLike<void>;
 }
 
+export interface DeployHookContext {
+  client: CloudFormation.CloudFormationClient;
+  logger: Logger;
+  stackName: string;
+  // Set once the change set has been created.
+  plan?: ChangeSetPlan;
+}
+
+// Returning false vetoes the deploy, throwing DeployHookVetoedError.
+export type DeployHookResult = boolean | void | PromiseLike<boolean | void>;
+
+export interface DeployHooks {
+  // Before packaging the template and creating the change set, e.g. to build
+  // the artifacts it references.
+  beforeChangeSet?: (context: DeployHookContext) => DeployHookResult;
+  // Once the change set is created and checked, before prompting. Vetoing
+  // deletes the change set.
+  changeSetReady?: (
+    changes: CloudFormation.Change[],
+    context: DeployHookContext,
+  ) => DeployHookResult;
+  // After prompting, before executing the change set. Vetoing deletes the
+  // change set.
+  beforeExecute?: (context: DeployHookContext) => DeployHookResult;
+  // After the change set executed successfully, e.g. to run smoke tests.
+  afterExecute?: (
+    stack: CloudFormation.Stack,
+    context: DeployHookContext,
+  ) => DeployHookResult;
+  // When the deploy throws, including when vetoed, before rethrowing. Errors
+  // it throws are logged, the deploy error is rethrown.
+  onFailure?: (
+    error: unknown,
+    context: DeployHookContext,
+  ) => void | PromiseLike<void>;
+  onNoChanges?: (context: DeployHookContext) => DeployHookResult;
+}
+
+export type DeployHookStage = keyof DeployHooks;
+
+export type DriftCheck = "off" | "warn" | "fail";
+
+export interface PollingOptions {
+  // Milliseconds between polling the stack status. Default: 2000, or 1000
+  // for change sets.
+  interval?: number;
+  // Multiplies the interval after each poll. Default: 1
+  backoff?: number;
+  // Limits the interval after backoff and throttling. Default: 30000
+  maxInterval?: number;
+  // Milliseconds before throwing DeployStackTimeoutError. Default: none
+  timeout?: number;
+  // Replaces the real time while polling, e.g. with the clock of a
+  // FakeCloudFormationClient so tests don't wait.
+  clock?: Clock;
+}
+
+export interface Clock {
+  now(): number;
+  // Rejects with an AbortError if the signal is aborted.
+  sleep(ms: number, signal?: AbortSignal): Promise<void>;
+}
+
 export interface DeployStackOptions {
   logger?: Logger;
   prompt?: (message: string) => boolean | PromiseLike<boolean>;
   waiter?: StackWaiter;
+  hooks?: DeployHooks;
+  // Renders the change set before prompting, defaults to formatChanges().
+  changeFormatter?: ChangeFormatter;
+  // Also show the differences between the deployed template and parameters
+  // and the new ones before prompting.
+  showTemplateDiff?: boolean;
+  // Detect drift of the existing stack before updating it, and either log
+  // ("warn") or throw StackDriftedError ("fail") if it has drifted. If the
+  // detection fails, "fail" throws DriftDetectionFailedError.
+  driftCheck?: DriftCheck;
+  // Leave resources of a failed deploy as they are, instead of rolling back.
+  // The next deploy then offers to roll back or retry.
+  disableRollback?: boolean;
+  // Resources to skip when continuing to roll back an UPDATE_ROLLBACK_FAILED
+  // stack.
+  resourcesToSkip?: string[];
+  // Before creating the change set, the template is validated and the
+  // parameters checked against it, throwing PreflightValidationError with all
+  // the problems found. With autoCapabilities, capabilities the template
+  // requires are added instead of being a problem.
+  skipPreflightCheck?: boolean;
+  autoCapabilities?: boolean;
+  // Throw ChangeSetPolicyViolationError before prompting if the change set
+  // replaces or removes resources protected by the policy, other than those
+  // in allowReplacement.
+  changeSetPolicy?: ChangeSetPolicy;
+  allowReplacement?: string[];
+  // Stack policy to set when executing the change set. While an update is
+  // executing, allowReplacement resources are temporarily allowed to update.
+  stackPolicyBody?: string;
+  // Aborting throws DeployStackAbortedError the next time the stack is
+  // polled. If cancelOnAbort is set and an update is executing, the update is
+  // first cancelled and rolled back.
+  signal?: AbortSignal;
+  cancelOnAbort?: boolean;
+  polling?: PollingOptions;
 
   client: CloudFormation.CloudFormationClient;
-  templateBody: string;
+  // Exactly one of templateBody, templateUrl or usePreviousTemplate is
+  // required, otherwise InvalidTemplateOptionsError is thrown.
+  templateBody?: string;
+  templateUrl?: string;
+  // Reuse the template of the existing stack, only valid for updates.
+  // Parameters can similarly set UsePreviousValue.
+  usePreviousTemplate?: boolean;
+  // Where to upload templateBody if it is too large to pass inline.
+  templateBucket?: BucketLocation;
+  // Where to upload local artifacts referenced by templateBody, e.g. Lambda
+  // function code directories and nested templates, which are relative to
+  // templateDirectory (default: the current directory).
+  artifactBucket?: BucketLocation;
+  templateDirectory?: string;
   stackName: string;
   parameters?: CloudFormation.Parameter[];
+  // Resolves parameter values like "env:DB_USER" or "ssm:/app/password"
+  // before planning, see defaultParameterResolvers.
+  parameterResolvers?: ParameterResolvers;
   capabilities?: CloudFormation.Capability[];
   tags?: CloudFormation.Tag[];
+  // Service role CloudFormation uses for the stack operations, instead of the
+  // caller's credentials.
+  roleArn?: string;
+  // SNS topics to send the stack events to.
+  notificationArns?: string[];
+  // CloudWatch alarms that roll back the change set if they go into ALARM
+  // while it executes, or for MonitoringTimeInMinutes after.
+  rollbackConfiguration?: CloudFormation.RollbackConfiguration;
+  // Resource types the template may use, e.g. "AWS::S3::*".
+  resourceTypes?: string[];
+  // Enable or disable termination protection after the change set executes
+  // successfully, if it differs.
+  terminationProtection?: boolean;
+  // Existing resources to import into the stack with an IMPORT change set,
+  // instead of creating or updating it, e.g. from generateImportResources().
+  // Each must be in the template with DeletionPolicy: Retain, and the
+  // template must not otherwise change the stack.
+  importResources?: CloudFormation.ResourceToImport[];
 }
 
-export default async function deployStack({
-  logger = console,
-  prompt = createPrompt(process.stdin, process.stdout),
-  waiter,
+export interface ChangeSetPlan {
+  changeSetId: string;
+  stackId: string;
+  stackName: string;
+  changeSetType: ChangeSetType;
+  changes: CloudFormation.Change[];
+}
 
-  client,
-  templateBody,
-  stackName,
-  parameters,
-  capabilities,
-  tags,
-}: DeployStackOptions) {
-  let changes: CloudFormation.Change[] | null;
-  const type = await getChangeSetType();
-
-  async function getChangeSetType(): Promise<"CREATE" | "UPDATE"> {
-    const stack = await getStack();
+export type ChangeSetType = "CREATE" | "UPDATE" | "IMPORT";
+
+export type DeployStackOutcome =
+  | "created"
+  | "updated"
+  | "imported"
+  | "no-changes"
+  | "declined";
+
+export interface DeployStackResult {
+  outcome: DeployStackOutcome;
+  // null when there were no changes.
+  changeSetId: string | null;
+  // null when a new stack was declined and so does not exist.
+  stackId: string | null;
+  changes: CloudFormation.Change[];
+  // The stack after executing, or the existing stack otherwise.
+  stack: CloudFormation.Stack | null;
+  outputs: Record<string, string>;
+  timing: {
+    startTime: Date;
+    // null when the change set was not executed.
+    executionStartTime: Date | null;
+    endTime: Date;
+  };
+}
+
+export default async function deployStack(
+  options: DeployStackOptions,
+): Promise<DeployStackResult> {
+  const hookContext = createHookContext(options);
+  return withFailureHook(options.hooks, hookContext, () =>
+    deploy(options, hookContext),
+  );
+}
+
+async function deploy(
+  options: DeployStackOptions,
+  hookContext: DeployHookContext,
+): Promise<DeployStackResult> {
+  const {
+    logger = console,
+    prompt = createPrompt(process.stdin, process.stdout),
+    hooks,
+    disableRollback,
+    cancelOnAbort,
+    allowReplacement,
+    stackPolicyBody,
+    terminationProtection,
+    client,
+    stackName,
+  } = options;
+  const startTime = new Date();
+  const context = createStackContext({ ...options, logger });
+
+  const plan = await createPlan({ ...options, logger, prompt }, hookContext);
+  if (!plan) {
+    // There is no change set to execute, but the protection can differ.
+    const stack = await describeStack(client, stackName);
+    return result(
+      "no-changes",
+      null,
+      stack &&
+        (await updateTerminationProtection(
+          client,
+          stack,
+          terminationProtection,
+          logger,
+        )),
+    );
+  }
+
+  if (!(await prompt("Deploy?"))) {
+    await deleteChangeSet(client, plan.changeSetId, logger);
+    return result("declined", null, await describeStack(client, stackName));
+  }
+
+  const executionStartTime = new Date();
+  const stack = await executeChangeSet(
+    {
+      ...context,
+      hooks,
+      disableRollback,
+      cancelOnAbort,
+      allowReplacement,
+      stackPolicyBody,
+      terminationProtection,
+    },
+    plan,
+    hookContext,
+  );
+  return result(
+    plan.changeSetType === "CREATE"
+      ? "created"
+      : plan.changeSetType === "IMPORT"
+      ? "imported"
+      : "updated",
+    executionStartTime,
+    stack,
+  );
+
+  function result(
+    outcome: DeployStackOutcome,
+    executionStartTime: Date | null,
+    stack: CloudFormation.Stack | null,
+  ): DeployStackResult {
+    // A declined create leaves an empty REVIEW_IN_PROGRESS stack.
+    const exists = stack && stack.StackStatus !== "REVIEW_IN_PROGRESS";
+    return {
+      outcome,
+      changeSetId: plan?.changeSetId ?? null,
+      stackId: exists ? stack.StackId! : null,
+      changes: plan?.changes ?? [],
+      stack: exists ? stack : null,
+      outputs: getStackOutputs(stack),
+      timing: { startTime, executionStartTime, endTime: new Date() },
+    };
+  }
+}
+
+export function getStackOutputs(
+  stack: CloudFormation.Stack | null,
+): Record<string, string> {
+  const outputs: Record<string, string> = {};
+  for (const output of stack?.Outputs ?? []) {
+    outputs[output.OutputKey!] = output.OutputValue!;
+  }
+  return outputs;
+}
+
+// Creates a change set and logs the changes it would make, but leaves it to be
+// executed later with applyChangeSet(). Resolves to null if there are no
+// changes.
+export async function planStack(
+  options: DeployStackOptions,
+): Promise<ChangeSetPlan | null> {
+  const hookContext = createHookContext(options);
+  return withFailureHook(options.hooks, hookContext, () =>
+    createPlan(options, hookContext),
+  );
+}
+
+async function createPlan(
+  {
+    logger = console,
+    prompt = createPrompt(process.stdin, process.stdout),
+    hooks,
+    waiter,
+    signal,
+    polling,
+    changeFormatter = (changes) =>
+      formatChanges(changes, { color: process.stdout.isTTY }),
+    showTemplateDiff = false,
+    driftCheck = "off",
+    resourcesToSkip,
+    skipPreflightCheck = false,
+    autoCapabilities = false,
+    changeSetPolicy,
+    allowReplacement,
+
+    client,
+    templateBody,
+    templateUrl,
+    usePreviousTemplate = false,
+    templateBucket,
+    artifactBucket,
+    templateDirectory = ".",
+    stackName,
+    parameters,
+    parameterResolvers,
+    capabilities,
+    tags,
+    roleArn,
+    notificationArns,
+    rollbackConfiguration,
+    resourceTypes,
+    importResources,
+  }: DeployStackOptions,
+  hookContext: DeployHookContext,
+): Promise<ChangeSetPlan | null> {
+  const templateOptions = Object.entries({
+    templateBody: templateBody !== undefined,
+    templateUrl: templateUrl !== undefined,
+    usePreviousTemplate,
+  })
+    .filter(([, set]) => set)
+    .map(([option]) => option);
+  if (templateOptions.length !== 1) {
+    throw new InvalidTemplateOptionsError(templateOptions);
+  }
+  if (importResources && usePreviousTemplate) {
+    throw new InvalidImportResourcesError([
+      "importResources requires templateBody or templateUrl",
+    ]);
+  }
+
+  if (parameters && parameterResolvers) {
+    parameters = await resolveParameterValues(
+      parameters,
+      parameterResolvers,
+      client,
+      logger,
+    );
+  }
+
+  const context = createStackContext({
+    client,
+    logger,
+    waiter,
+    signal,
+    polling,
+  });
+  let existingStack: CloudFormation.Stack | null = null;
+  // A REVIEW_IN_PROGRESS stack left by a create that was never executed.
+  let reviewStack: CloudFormation.Stack | null = null;
+  let type = await getChangeSetType();
+
+  if (type === "UPDATE" && driftCheck !== "off") {
+    await checkDrift();
+  }
+
+  if (importResources) {
+    logger.log("Importing %d resources...", importResources.length);
+    type = "IMPORT";
+  }
+
+  async function getChangeSetType(): Promise<ChangeSetType> {
+    const stack = await describeStack(client, stackName);
     if (!stack || stack.StackStatus === "REVIEW_IN_PROGRESS") {
       logger.log("Stack does not exist, creating new...");
+      assertNoPreviousValues();
+      reviewStack = stack;
       return "CREATE";
     }
 
     if (stack.StackStatus === "DELETE_COMPLETE") {
       logger.log("Stack was deleted, creating new...");
+      assertNoPreviousValues();
       return "CREATE";
     }
 
+    if (
+      stack.StackStatus === "UPDATE_FAILED" ||
+      (stack.StackStatus === "CREATE_FAILED" && stack.DisableRollback)
+    ) {
+      // Only possible when a previous deploy disabled rollback.
+      if (
+        await prompt(
+          `Stack failed with status ${stack.StackStatus} and rollback disabled. Roll back before deploying (otherwise retry)?`,
+        )
+      ) {
+        logger.log("Rolling back stack...");
+        await client.send(
+          new CloudFormation.RollbackStackCommand({
+            StackName: stackName,
+            RoleARN: roleArn,
+          }),
+        );
+        await waitUntilDone(context, "ROLLBACK_EXISTING", stackName);
+        return getChangeSetType();
+      }
+      logger.log("Retrying failed stack...");
+      existingStack = stack;
+      return "UPDATE";
+    }
+
+    if (stack.StackStatus === "UPDATE_ROLLBACK_FAILED") {
+      if (!(await prompt("Stack failed to roll back. Continue rollback?"))) {
+        throw new InvalidStatusBeforeUpdateStackError(stack);
+      }
+      logger.log("Continuing update rollback...");
+      await client.send(
+        new CloudFormation.ContinueUpdateRollbackCommand({
+          StackName: stackName,
+          RoleARN: roleArn,
+          ResourcesToSkip: resourcesToSkip,
+        }),
+      );
+      await waitUntilDone(context, "ROLLBACK_EXISTING", stackName);
+      return getChangeSetType();
+    }
+
+    // ContinueUpdateRollback only supports UPDATE_ROLLBACK_FAILED, so the
+    // resources that failed to roll back must be fixed by hand.
+    if (stack.StackStatus === "IMPORT_ROLLBACK_FAILED") {
+      throw new InvalidStatusBeforeUpdateStackError(stack);
+    }
+
     if (
       stack.StackStatus === "CREATE_FAILED" ||
-      stack.StackStatus === "ROLLBACK_COMPLETE"
+      stack.StackStatus === "ROLLBACK_COMPLETE" ||
+      // A failed import into a new stack leaves it without resources.
+      (stack.StackStatus === "IMPORT_ROLLBACK_COMPLETE" &&
+        !(await hasResources()))
     ) {
       logger.log("Stack failed to create, replacing...");
+      assertNoPreviousValues();
       await client.send(
         new CloudFormation.DeleteStackCommand({
           StackName: stackName,
+          RoleARN: roleArn,
         }),
       );
-      const stack = await waitUntilDone("DELETE_EXISTING");
+      const stack = await waitUntilDone(context, "DELETE_EXISTING", stackName);
       if (stack && stack.StackStatus !== "DELETE_COMPLETE") {
-        throw new InvalidCompleteStatusStackError(stack, "DELETE");
+        throw new InvalidCompleteStatusStackError(
+          stack,
+          "DELETE",
+          await diagnoseStackFailures(client, stack.StackId!).catch(() => []),
+        );
       }
       return "CREATE";
     }
@@ -132,6 +553,7 @@ export default async function deployStack({
         "Stack exists with status %O, updating existing...",
         stack.StackStatus,
       );
+      existingStack = stack;
       return "UPDATE";
     }
 
@@ -140,51 +562,116 @@ export default async function deployStack({
         "Stack is in progress with status %O, waiting...",
         stack.StackStatus,
       );
-      await waitUntilDone("IN_PROGRESS_EXISTING");
+      await waitUntilDone(context, "IN_PROGRESS_EXISTING", stackName);
       return getChangeSetType();
     }
 
     throw new InvalidStatusBeforeUpdateStackError(stack);
   }
 
+  async function hasResources() {
+    const { StackResources = [] } = await client.send(
+      new CloudFormation.DescribeStackResourcesCommand({
+        StackName: stackName,
+      }),
+    );
+    return StackResources.length > 0;
+  }
+
+  function assertNoPreviousValues() {
+    const previousValues = [
+      ...(usePreviousTemplate ? ["template"] : []),
+      ...(parameters ?? [])
+        .filter((parameter) => parameter.UsePreviousValue)
+        .map((parameter) => `parameter ${parameter.ParameterKey}`),
+    ];
+    if (previousValues.length) {
+      throw new NoPreviousValuesError(stackName, previousValues);
+    }
+  }
+
+  await runHook(hooks, "beforeChangeSet", hookContext);
+
   // API quirk
   if (capabilities && capabilities.length === 0) {
     capabilities = undefined;
   }
 
-  const changeSetName = `deploy-${new Date()
-    .toISOString()
-    .replace(/[^-\w]/g, "-")}`;
-  const create = await client.send(
-    new CloudFormation.CreateChangeSetCommand({
-      StackName: stackName,
-      ChangeSetName: changeSetName,
-      ChangeSetType: type,
-      TemplateBody: templateBody,
-      Parameters: parameters,
-      Capabilities: capabilities,
-      Tags: tags,
-    }),
-  );
+  if (artifactBucket && templateBody !== undefined) {
+    templateBody = await packageTemplate(templateBody, {
+      bucket: artifactBucket,
+      directory: templateDirectory,
+      logger,
+    });
+  }
 
-  logger.log("Created change set %O", create.Id);
-  const reviewUrlParams = new URLSearchParams({
-    changeSetId: create.Id!,
-    stackId: create.StackId!,
-  });
+  // A template URL is left to CloudFormation to check.
+  if (importResources && templateBody !== undefined) {
+    const problems = checkImportResources(
+      parseTemplate(templateBody),
+      importResources,
+    );
+    if (problems.length) {
+      throw new InvalidImportResourcesError(problems);
+    }
+  }
+
+  const template = await getTemplateLocation();
+
+  if (!skipPreflightCheck) {
+    await checkPreflight(template);
+  }
+
+  // Identifies change sets created with the same inputs, which can be reused.
+  // The content of a template URL may have changed, so those are not. The
+  // values of NoEcho parameters are hashed as "****", so the description
+  // can't be used to check guesses of them.
+  const noEchoKeys =
+    template.TemplateURL === undefined || templateBody !== undefined
+      ? await getNoEchoKeys()
+      : undefined;
+  const description = noEchoKeys
+    ? `deploy-stack ${hashChangeSetInput({
+        type,
+        templateBody,
+        usePreviousTemplate,
+        parameters: parameters?.map((parameter) => ({
+          ...parameter,
+          ParameterValue: maskParameterValue(
+            noEchoKeys,
+            parameter.ParameterKey!,
+            parameter.ParameterValue,
+          ),
+        })),
+        capabilities,
+        tags,
+        roleArn,
+        notificationArns,
+        rollbackConfiguration,
+        resourceTypes,
+        importResources,
+      })}`
+    : undefined;
+
+  const { changeSetName, changeSetId, stackId } =
+    (await findPendingChangeSet()) ?? (await createChangeSet());
+  const reviewUrlParams = new URLSearchParams({ changeSetId, stackId });
   logger.log(
     "Review at %s",
     `https://${client.config.region}.console.aws.amazon.com/cloudformation/home?region=${client.config.region}#/changeset/detail?${reviewUrlParams}`,
   );
 
+  const poller = createPoller(context, 1000);
   let changeSet: CloudFormation.DescribeChangeSetOutput;
   do {
-    await sleep(1000);
-    changeSet = await client.send(
-      new CloudFormation.DescribeChangeSetCommand({
-        StackName: stackName,
-        ChangeSetName: changeSetName,
-      }),
+    await poller.wait();
+    changeSet = await retryThrottled(poller, () =>
+      client.send(
+        new CloudFormation.DescribeChangeSetCommand({
+          StackName: stackName,
+          ChangeSetName: changeSetName,
+        }),
+      ),
     );
   } while (changeSet.Status === "CREATE_IN_PROGRESS");
 
@@ -195,96 +682,607 @@ export default async function deployStack({
         "The submitted information didn't contain changes. Submit different information to create a change set."
     ) {
       logger.log("No changes");
-      await deleteChangeSet();
+      await deleteChangeSet(client, changeSetId, logger);
     } else {
       throw new ChangeSetNotAvailableError(changeSet);
     }
-    return;
+    await runHook(hooks, "onNoChanges", hookContext);
+    return null;
   }
 
-  changes = changeSet.Changes!;
-  while (changeSet.NextToken) {
-    changeSet = await client.send(
-      new CloudFormation.DescribeChangeSetCommand({
+  const changes = await describeChanges(client, changeSet);
+
+  logger.log("Changes:\n%s", changeFormatter(changes));
+
+  if (showTemplateDiff && existingStack) {
+    await logTemplateDiff(existingStack);
+  }
+
+  if (changeSetPolicy) {
+    const violations = checkChangeSetPolicy(
+      changes,
+      changeSetPolicy,
+      allowReplacement,
+    );
+    if (violations.length) {
+      await deleteChangeSet(client, changeSetId, logger);
+      throw new ChangeSetPolicyViolationError(violations);
+    }
+  }
+
+  const plan: ChangeSetPlan = {
+    changeSetId,
+    stackId,
+    stackName,
+    changeSetType: type,
+    changes,
+  };
+  hookContext.plan = plan;
+  try {
+    await runHook(hooks, "changeSetReady", changes, hookContext);
+  } catch (e) {
+    await deleteChangeSet(client, plan.changeSetId, logger);
+    throw e;
+  }
+  return plan;
+
+  async function createChangeSet() {
+    const changeSetName = `${changeSetNamePrefix}${new Date()
+      .toISOString()
+      .replace(/[^-\w]/g, "-")}`;
+    const create = await client.send(
+      new CloudFormation.CreateChangeSetCommand({
         StackName: stackName,
         ChangeSetName: changeSetName,
-        NextToken: changeSet.NextToken,
+        ChangeSetType: type,
+        Description: description,
+        ...template,
+        Parameters: parameters,
+        Capabilities: capabilities,
+        Tags: tags,
+        RoleARN: roleArn,
+        NotificationARNs: notificationArns,
+        RollbackConfiguration: rollbackConfiguration,
+        ResourceTypes: resourceTypes,
+        ResourcesToImport: importResources,
       }),
     );
-    changes.push(...changeSet.Changes!);
+    logger.log("Created change set %O", create.Id);
+    return {
+      changeSetName,
+      changeSetId: create.Id!,
+      stackId: create.StackId!,
+    };
   }
 
-  logger.log("Changes:\n%O", changes);
+  // Offers to reuse the newest available change set with the same inputs,
+  // e.g. left by a deploy that was interrupted before executing it. Not when
+  // NoEcho parameters have values, as those are masked in the description.
+  async function findPendingChangeSet() {
+    if (
+      description === undefined ||
+      (!existingStack && !reviewStack) ||
+      parameters?.some(
+        (parameter) =>
+          parameter.ParameterValue !== undefined &&
+          noEchoKeys?.has(parameter.ParameterKey!),
+      )
+    ) {
+      return undefined;
+    }
+    const pending = (await listChangeSets(client, stackName))
+      .filter(
+        (changeSet) =>
+          changeSet.Description === description &&
+          changeSet.Status === "CREATE_COMPLETE" &&
+          changeSet.ExecutionStatus === "AVAILABLE",
+      )
+      .sort((a, b) => b.CreationTime!.valueOf() - a.CreationTime!.valueOf())[0];
+    if (
+      !pending ||
+      !(await prompt(
+        `Found an identical pending change set ${
+          pending.ChangeSetName
+        }, created ${pending.CreationTime!.toISOString()}. Reuse it?`,
+      ))
+    ) {
+      return undefined;
+    }
+    logger.log("Reusing change set %O", pending.ChangeSetId);
+    return {
+      changeSetName: pending.ChangeSetName!,
+      changeSetId: pending.ChangeSetId!,
+      stackId: pending.StackId!,
+    };
+  }
 
-  if (!(await prompt("Deploy?"))) {
-    await deleteChangeSet();
-    return;
+  // The NoEcho parameter keys of the template, from GetTemplateSummary if
+  // it is a template URL or the previous template.
+  async function getNoEchoKeys() {
+    if (templateBody !== undefined) {
+      return getNoEchoParameterKeys(parseTemplate(templateBody));
+    }
+    return describeNoEchoParameterKeys(
+      client,
+      templateUrl !== undefined
+        ? { TemplateURL: templateUrl }
+        : { StackName: stackName },
+    );
   }
 
-  logger.log("Executing change set...");
-  await client.send(
-    new CloudFormation.ExecuteChangeSetCommand({
-      StackName: stackName,
-      ChangeSetName: changeSetName,
+  async function getTemplateLocation(): Promise<TemplateLocation> {
+    if (usePreviousTemplate) {
+      return { UsePreviousTemplate: true };
+    }
+    if (templateBody === undefined) {
+      return { TemplateURL: templateUrl };
+    }
+    const templateSize = Buffer.byteLength(templateBody, "utf-8");
+    if (templateSize <= maxTemplateBodySize) {
+      return { TemplateBody: templateBody };
+    }
+    if (!templateBucket) {
+      throw new TemplateTooLargeError(templateSize);
+    }
+    logger.log("Template is too large to pass inline, uploading...");
+    const { url } = await uploadToBucket(
+      templateBucket,
+      templateBody,
+      ".template",
+      logger,
+    );
+    return { TemplateURL: url };
+  }
+
+  async function checkPreflight(template: TemplateLocation) {
+    const { problems, missingCapabilities, capabilitiesReason } =
+      await preflightCheck(
+        client,
+        stackName,
+        template,
+        parameters,
+        capabilities,
+      );
+    if (missingCapabilities.length) {
+      if (autoCapabilities) {
+        logger.log("Adding capabilities %s", missingCapabilities.join(", "));
+        capabilities = [...(capabilities ?? []), ...missingCapabilities];
+      } else {
+        problems.push(
+          `Missing capabilities: ${missingCapabilities.join(
+            ", ",
+          )} (${capabilitiesReason})`,
+        );
+      }
+    }
+    if (problems.length) {
+      throw new PreflightValidationError(problems);
+    }
+  }
+
+  async function checkDrift() {
+    logger.log("Detecting stack drift...");
+    const { detection, drifts } = await detectStackDrift(client, stackName, {
+      signal,
+      polling,
+    });
+    if (detection.DetectionStatus === "DETECTION_FAILED") {
+      // The stack may have drifted, so it can't be assumed to be in sync.
+      if (driftCheck === "fail") {
+        throw new DriftDetectionFailedError(stackName, detection);
+      }
+      logger.log("Drift detection failed: %s", detection.DetectionStatusReason);
+    }
+    if (!drifts.length) {
+      return;
+    }
+    if (driftCheck === "fail") {
+      throw new StackDriftedError(stackName, drifts);
+    }
+    logger.log("Stack has drifted resources:\n%s", formatStackDrifts(drifts));
+  }
+
+  async function logTemplateDiff(stack: CloudFormation.Stack) {
+    if (templateBody !== undefined) {
+      const deployed = await client.send(
+        new CloudFormation.GetTemplateCommand({
+          StackName: stackName,
+          TemplateStage: "Original",
+        }),
+      );
+      const differences = diffTemplates(
+        parseTemplate(deployed.TemplateBody!),
+        parseTemplate(templateBody),
+      );
+      logger.log(
+        "Template differences:\n%s",
+        formatTemplateDifferences(differences),
+      );
+    } else if (templateUrl !== undefined) {
+      logger.log("Template differences are not available for template URLs");
+    }
+
+    // Parameters that are NoEcho in the new template may not be masked in
+    // the stack yet.
+    const differences = diffParameterValues(
+      stack.Parameters ?? [],
+      parameters ?? [],
+      noEchoKeys ?? (await getNoEchoKeys()),
+    );
+    logger.log(
+      "Parameter differences:\n%s",
+      formatTemplateDifferences(differences),
+    );
+  }
+}
+
+export interface ApplyChangeSetOptions {
+  logger?: Logger;
+  waiter?: StackWaiter;
+  // As for DeployStackOptions, but only beforeExecute, afterExecute and
+  // onFailure are used.
+  hooks?: DeployHooks;
+  disableRollback?: boolean;
+  // As for DeployStackOptions.
+  signal?: AbortSignal;
+  cancelOnAbort?: boolean;
+  polling?: PollingOptions;
+  changeSetPolicy?: ChangeSetPolicy;
+  allowReplacement?: string[];
+  stackPolicyBody?: string;
+  terminationProtection?: boolean;
+
+  client: CloudFormation.CloudFormationClient;
+  // The change set ARN, e.g. from ChangeSetPlan.changeSetId.
+  changeSetId: string;
+}
+
+// Executes a change set created earlier by planStack(), if it is still
+// available and the stack has not been updated since.
+export async function applyChangeSet(
+  options: ApplyChangeSetOptions,
+): Promise<CloudFormation.Stack> {
+  const { client, changeSetId } = options;
+  const changeSet = await client.send(
+    new CloudFormation.DescribeChangeSetCommand({
+      ChangeSetName: changeSetId,
     }),
   );
+  const hookContext = createHookContext({
+    ...options,
+    stackName: changeSet.StackName!,
+  });
+  return withFailureHook(options.hooks, hookContext, () =>
+    applyDescribedChangeSet(options, changeSet, hookContext),
+  );
+}
 
+async function applyDescribedChangeSet(
+  options: ApplyChangeSetOptions,
+  changeSet: CloudFormation.DescribeChangeSetOutput,
+  hookContext: DeployHookContext,
+) {
+  const {
+    hooks,
+    disableRollback,
+    cancelOnAbort,
+    changeSetPolicy,
+    allowReplacement,
+    stackPolicyBody,
+    terminationProtection,
+    client,
+    changeSetId,
+  } = options;
+  const context = createStackContext(options);
+
+  if (changeSet.ExecutionStatus !== "AVAILABLE") {
+    throw new ChangeSetNotAvailableError(changeSet);
+  }
+
+  const stack = await describeStack(client, changeSet.StackId!);
+  if (!stack) {
+    throw new ChangeSetNotAvailableError(changeSet, "Stack does not exist");
+  }
+  const lastUpdatedTime = stack.LastUpdatedTime ?? stack.CreationTime;
+  if (lastUpdatedTime && lastUpdatedTime > changeSet.CreationTime!) {
+    throw new ChangeSetNotAvailableError(
+      changeSet,
+      "Stack was updated after the change set was created",
+    );
+  }
+
+  const changes = await describeChanges(client, changeSet);
+  if (changeSetPolicy) {
+    const violations = checkChangeSetPolicy(
+      changes,
+      changeSetPolicy,
+      allowReplacement,
+    );
+    if (violations.length) {
+      throw new ChangeSetPolicyViolationError(violations);
+    }
+  }
+
+  return executeChangeSet(
+    {
+      ...context,
+      hooks,
+      disableRollback,
+      cancelOnAbort,
+      allowReplacement,
+      stackPolicyBody,
+      terminationProtection,
+    },
+    {
+      changeSetId,
+      stackId: changeSet.StackId!,
+      stackName: changeSet.StackName!,
+      // Import change sets can only import resources.
+      changeSetType:
+        changes.length &&
+        changes.every((change) => change.ResourceChange?.Action === "Import")
+          ? "IMPORT"
+          : stack.StackStatus === "REVIEW_IN_PROGRESS"
+          ? "CREATE"
+          : "UPDATE",
+      changes,
+    },
+    hookContext,
+  );
+}
+
+interface ExecuteOptions {
+  hooks?: DeployHooks;
+  disableRollback?: boolean;
+  cancelOnAbort?: boolean;
+  allowReplacement?: string[];
+  stackPolicyBody?: string;
+  terminationProtection?: boolean;
+}
+
+async function executeChangeSet(
   {
-    const stack = (await waitUntilDone("EXECUTING"))!;
-    if (stack.StackStatus !== `${type}_COMPLETE`) {
-      throw new InvalidCompleteStatusStackError(stack, type);
+    hooks,
+    disableRollback,
+    cancelOnAbort,
+    allowReplacement = [],
+    stackPolicyBody,
+    terminationProtection,
+    ...context
+  }: StackContext & ExecuteOptions,
+  plan: ChangeSetPlan,
+  hookContext: DeployHookContext,
+) {
+  const { client, logger } = context;
+  const { changeSetId, stackName, changeSetType, changes } = plan;
+
+  hookContext.plan = plan;
+  try {
+    await runHook(hooks, "beforeExecute", hookContext);
+  } catch (e) {
+    await deleteChangeSet(client, changeSetId, logger);
+    throw e;
+  }
+
+  // The policy of a new stack can only be set after it is created. Imports
+  // don't update resources, so theirs is also set after.
+  const temporaryStackPolicyBody =
+    changeSetType === "UPDATE" &&
+    stackPolicyBody !== undefined &&
+    allowReplacement.length
+      ? createStackPolicyOverride(stackPolicyBody, allowReplacement)
+      : undefined;
+  if (changeSetType === "UPDATE" && stackPolicyBody !== undefined) {
+    await setStackPolicy(
+      temporaryStackPolicyBody ?? stackPolicyBody,
+      temporaryStackPolicyBody ? "temporary stack policy" : "stack policy",
+    );
+  }
+
+  let stack: CloudFormation.Stack;
+  try {
+    logger.log("Executing change set...");
+    await client.send(
+      new CloudFormation.ExecuteChangeSetCommand({
+        ChangeSetName: changeSetId,
+        DisableRollback: disableRollback,
+      }),
+    );
+    stack = (await waitUntilDone(context, "EXECUTING", stackName, changes))!;
+  } catch (e) {
+    try {
+      if (
+        e instanceof DeployStackAbortedError &&
+        cancelOnAbort &&
+        changeSetType === "UPDATE"
+      ) {
+        logger.log("Cancelling update...");
+        await client.send(
+          new CloudFormation.CancelUpdateStackCommand({ StackName: stackName }),
+        );
+        // The rollback is waited for even though the signal was aborted.
+        await waitUntilDone(
+          { ...context, signal: undefined, deadline: null },
+          "CANCELLING",
+          stackName,
+          changes,
+        );
+      }
+    } finally {
+      await restoreStackPolicy(true);
     }
+    throw e;
+  }
+  const failed = stack.StackStatus !== `${changeSetType}_COMPLETE`;
+  await restoreStackPolicy(failed);
+  if (failed) {
+    throw new InvalidCompleteStatusStackError(
+      stack,
+      changeSetType,
+      // Best effort, so it doesn't replace this error.
+      await diagnoseStackFailures(client, stack.StackId!).catch(() => []),
+    );
+  }
+  if (changeSetType !== "UPDATE" && stackPolicyBody !== undefined) {
+    await setStackPolicy(stackPolicyBody, "stack policy");
+  }
+  stack = await updateTerminationProtection(
+    client,
+    stack,
+    terminationProtection,
+    logger,
+  );
 
-    if (stack.Outputs && stack.Outputs.length) {
-      logger.log("Outputs:");
-      for (const output of stack.Outputs) {
-        logger.log("  %O: %O", output.OutputKey, output.OutputValue);
+  if (stack.Outputs && stack.Outputs.length) {
+    logger.log("Outputs:");
+    for (const output of stack.Outputs) {
+      logger.log("  %O: %O", output.OutputKey, output.OutputValue);
+    }
+  }
+
+  await runHook(hooks, "afterExecute", stack, hookContext);
+  return stack;
+
+  // Replaces the temporary stack policy, if any. If the deploy failed, errors
+  // are only logged, so they don't replace the error of the deploy.
+  async function restoreStackPolicy(failed: boolean) {
+    if (!temporaryStackPolicyBody) {
+      return;
+    }
+    try {
+      await setStackPolicy(stackPolicyBody!, "stack policy");
+    } catch (e) {
+      if (!failed) {
+        throw e;
       }
+      logger.log("Failed to restore the stack policy: %s", e);
     }
   }
 
-  async function deleteChangeSet() {
-    logger.log("Deleting change set...");
+  async function setStackPolicy(body: string, description: string) {
+    logger.log("Setting %s...", description);
     await client.send(
-      new CloudFormation.DeleteChangeSetCommand({
+      new CloudFormation.SetStackPolicyCommand({
         StackName: stackName,
-        ChangeSetName: changeSetName,
+        StackPolicyBody: body,
       }),
     );
   }
+}
 
-  async function waitUntilDone(reason: StackWaiterReason) {
-    let stack;
-    do {
-      await sleep(2000);
-      stack = await getStack();
-      if (waiter)
-        await waiter.progress({ client, reason, stackName, stack, changes });
-    } while (stack && stack.StackStatus?.endsWith("_IN_PROGRESS"));
-    if (waiter)
-      await waiter.complete({ client, reason, stackName, stack, changes });
-    return stack;
+// A hash of the inputs of a change set, for finding identical ones.
+function hashChangeSetInput(input: object) {
+  return crypto
+    .createHash("sha256")
+    .update(JSON.stringify(input))
+    .digest("hex");
+}
+
+function createHookContext({
+  client,
+  logger = console,
+  stackName,
+}: {
+  client: CloudFormation.CloudFormationClient;
+  logger?: Logger;
+  stackName: string;
+}): DeployHookContext {
+  return { client, logger, stackName };
+}
+
+// Runs the hook for the stage if it is set, throwing DeployHookVetoedError if
+// it returns false.
+async function runHook<S extends DeployHookStage>(
+  hooks: DeployHooks | undefined,
+  stage: S,
+  ...args: Parameters<NonNullable<DeployHooks[S]>>
+) {
+  const hook = hooks?.[stage] as
+    | ((...args: unknown[]) => DeployHookResult)
+    | undefined;
+  if (hook && (await hook.apply(hooks, args)) === false) {
+    throw new DeployHookVetoedError(stage);
   }
+}
 
-  async function getStack() {
+// Runs the onFailure hook if fn throws, then rethrows. Errors from the hook
+// are only logged, so they don't replace the error of the deploy.
+async function withFailureHook<T>(
+  hooks: DeployHooks | undefined,
+  hookContext: DeployHookContext,
+  fn: () => Promise<T>,
+): Promise<T> {
+  try {
+    return await fn();
+  } catch (e) {
     try {
-      const res = await client.send(
-        new CloudFormation.DescribeStacksCommand({ StackName: stackName }),
-      );
-      return res.Stacks![0];
-    } catch (e) {
-      if (
-        e instanceof Error &&
-        e.name === "ValidationError" &&
-        e.message === `Stack with id ${stackName} does not exist`
-      ) {
-        return null;
-      }
-      throw e;
+      await runHook(hooks, "onFailure", e, hookContext);
+    } catch (hookError) {
+      hookContext.logger.log("onFailure hook failed: %s", hookError);
     }
+    throw e;
   }
 }
 
+// Reads the remaining pages of changes of a described change set.
+async function describeChanges(
+  client: CloudFormation.CloudFormationClient,
+  changeSet: CloudFormation.DescribeChangeSetOutput,
+) {
+  const changes = [...changeSet.Changes!];
+  while (changeSet.NextToken) {
+    changeSet = await client.send(
+      new CloudFormation.DescribeChangeSetCommand({
+        StackName: changeSet.StackId,
+        ChangeSetName: changeSet.ChangeSetId,
+        NextToken: changeSet.NextToken,
+      }),
+    );
+    changes.push(...changeSet.Changes!);
+  }
+  return changes;
+}
+
+// Enables or disables termination protection, if not already, returning the
+// updated stack.
+async function updateTerminationProtection(
+  client: CloudFormation.CloudFormationClient,
+  stack: CloudFormation.Stack,
+  terminationProtection: boolean | undefined,
+  logger: Logger,
+): Promise<CloudFormation.Stack> {
+  if (
+    terminationProtection === undefined ||
+    terminationProtection === (stack.EnableTerminationProtection ?? false)
+  ) {
+    return stack;
+  }
+  logger.log(
+    "%s termination protection...",
+    terminationProtection ? "Enabling" : "Disabling",
+  );
+  await client.send(
+    new CloudFormation.UpdateTerminationProtectionCommand({
+      StackName: stack.StackId,
+      EnableTerminationProtection: terminationProtection,
+    }),
+  );
+  return { ...stack, EnableTerminationProtection: terminationProtection };
+}
+
+async function deleteChangeSet(
+  client: CloudFormation.CloudFormationClient,
+  changeSetId: string,
+  logger: Logger,
+) {
+  logger.log("Deleting change set...");
+  await client.send(
+    new CloudFormation.DeleteChangeSetCommand({
+      ChangeSetName: changeSetId,
+    }),
+  );
+}
+
 export function createPrompt(
   stdin: NodeJS.ReadStream,
   stdout: NodeJS.WriteStream,
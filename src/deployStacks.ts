@@ -0,0 +1,499 @@
+import * as util from "node:util";
+
+import * as CloudFormation from "@aws-sdk/client-cloudformation";
+
+import {
+  applyChangeSet,
+  ChangeSetPlan,
+  createPrompt,
+  DeployStackOptions,
+  DeployStackOutcome,
+  getStackOutputs,
+  Logger,
+  planStack,
+  PollingOptions,
+  StackWaiter,
+} from "./deployStack";
+import { formatStackFailures } from "./diagnoseStackFailures";
+import {
+  DeployStacksFailedError,
+  InvalidCompleteStatusStackError,
+  InvalidConcurrencyError,
+  StackDependencyCycleError,
+  StackDependencyFailedError,
+  StackReferenceError,
+} from "./errors";
+import { ChangeFormatter } from "./formatChanges";
+import resolveParameterValues from "./parameterResolvers";
+import { describeStack } from "./stackPolling";
+
+// Parameter values can reference the outputs of other stacks by ID, e.g.
+// "${network.VpcId}", including as part of a longer value. Other IDs are left
+// as is, e.g. "${AWS.Region}".
+export type StackDeployment = Omit<
+  DeployStackOptions,
+  "logger" | "prompt" | "waiter" | "signal" | "polling" | "changeFormatter"
+>;
+
+export interface DeployStacksOptions {
+  logger?: Logger;
+  prompt?: (message: string) => boolean | PromiseLike<boolean>;
+  // Creates the waiter for each stack, given a logger that prefixes lines
+  // with the stack ID, as independent stacks are deployed in parallel.
+  createWaiter?: (id: string, logger: Logger) => StackWaiter;
+  changeFormatter?: ChangeFormatter;
+  signal?: AbortSignal;
+  polling?: PollingOptions;
+  // The most stacks to deploy at once, at least 1. Default: no limit.
+  concurrency?: number;
+
+  stacks: Record<string, StackDeployment>;
+}
+
+export interface StackDeploymentResult {
+  outcome: DeployStackOutcome;
+  stack: CloudFormation.Stack | null;
+  outputs: Record<string, string>;
+}
+
+export interface DeployStacksResult {
+  outcome: "deployed" | "no-changes" | "declined";
+  stacks: Record<string, StackDeploymentResult>;
+}
+
+// A stack is deferred if it references outputs that will only exist once
+// the stacks it depends on are deployed.
+type PlannedStack =
+  | { deferred: false; plan: ChangeSetPlan | null; parameters: string }
+  | { deferred: true };
+
+const referencePattern = /\$\{([\w-]+)\.(\w+)\}/g;
+
+// Plans all the stacks in dependency order, prompts once for the whole plan,
+// then deploys each stack once the stacks it references have deployed.
+// Stacks are re-planned if the outputs they reference changed, and prompted
+// for again, as their changes were not part of the plan.
+// If any stack fails to plan or deploy, the others still are (other than
+// those referencing it), then DeployStacksFailedError is thrown with the
+// errors of each failed stack.
+export default async function deployStacks({
+  logger = console,
+  prompt = createPrompt(process.stdin, process.stdout),
+  createWaiter,
+  changeFormatter,
+  signal,
+  polling,
+  concurrency = Infinity,
+  stacks,
+}: DeployStacksOptions): Promise<DeployStacksResult> {
+  // Otherwise no stack could ever start.
+  if (!(concurrency >= 1)) {
+    throw new InvalidConcurrencyError(concurrency);
+  }
+  const dependencies = getDependencies(stacks);
+  const order = orderStacks(dependencies);
+  stacks = await resolveStackParameters(stacks, logger);
+
+  // The stacks before deploying, and their outputs, which are updated as they
+  // are deployed.
+  const existingStacks = new Map<string, CloudFormation.Stack | null>();
+  const outputs = new Map<string, Record<string, string>>();
+  const planned = new Map<string, PlannedStack>();
+  const failures = new Map<string, unknown>();
+
+  for (const id of order) {
+    try {
+      planned.set(id, await planInOrder(id));
+    } catch (e) {
+      reportFailure(id, e);
+    }
+  }
+
+  if (failures.size) {
+    await deleteChangeSets();
+    throw new DeployStacksFailedError(Object.fromEntries(failures), {});
+  }
+
+  logger.log("Plan:");
+  for (const id of order) {
+    const stackPlan = planned.get(id)!;
+    if (stackPlan.deferred) {
+      logger.log(
+        "  %s: planned after %s",
+        id,
+        [...dependencies.get(id)!].join(", "),
+      );
+    } else if (!stackPlan.plan) {
+      logger.log("  %s: no changes", id);
+    } else {
+      logger.log(
+        "  %s: %s, %d changes",
+        id,
+        stackPlan.plan.changeSetType.toLowerCase(),
+        stackPlan.plan.changes.length,
+      );
+    }
+  }
+
+  if (
+    [...planned.values()].every(
+      (stackPlan) => !stackPlan.deferred && !stackPlan.plan,
+    )
+  ) {
+    return { outcome: "no-changes", stacks: existingResults("no-changes") };
+  }
+
+  if (!(await prompt("Deploy?"))) {
+    await deleteChangeSets();
+    return { outcome: "declined", stacks: existingResults("declined") };
+  }
+
+  const limit = createLimit(concurrency);
+  // Stacks planned after the first prompt can be ready at the same time, but
+  // are prompted for one at a time.
+  const promptLimit = createLimit(1);
+  const deployments = new Map<string, Promise<StackDeploymentResult>>();
+  const settled = await Promise.allSettled(order.map(deploy));
+  const results: Record<string, StackDeploymentResult> = {};
+  order.forEach((id, index) => {
+    const result = settled[index];
+    if (result.status === "fulfilled") {
+      results[id] = result.value;
+    }
+  });
+  if (failures.size) {
+    throw new DeployStacksFailedError(Object.fromEntries(failures), results);
+  }
+  return { outcome: "deployed", stacks: results };
+
+  async function planInOrder(id: string): Promise<PlannedStack> {
+    const options = stacks[id];
+    const stackLogger = createPrefixLogger(logger, id);
+    const failedDependency = [...dependencies.get(id)!].find((dependency) =>
+      failures.has(dependency),
+    );
+    if (failedDependency) {
+      throw new StackDependencyFailedError(failedDependency);
+    }
+
+    const existing = await describeStack(options.client, options.stackName);
+    existingStacks.set(id, existing);
+    outputs.set(id, getStackOutputs(existing));
+
+    const pending = [...dependencies.get(id)!].filter((dependency) => {
+      const dependencyPlan = planned.get(dependency)!;
+      return dependencyPlan.deferred || dependencyPlan.plan;
+    });
+    const parameters = resolveParameters(options, outputs, pending);
+    if (!parameters) {
+      stackLogger.log(
+        "Waiting for the new outputs of %s to plan",
+        pending.join(", "),
+      );
+      return { deferred: true };
+    }
+    const plan = await planStack({
+      ...options,
+      logger: stackLogger,
+      prompt,
+      signal,
+      polling,
+      changeFormatter,
+      parameters,
+    });
+    return { deferred: false, plan, parameters: JSON.stringify(parameters) };
+  }
+
+  function reportFailure(id: string, error: unknown) {
+    failures.set(id, error);
+    const prefixLogger = createPrefixLogger(logger, id);
+    prefixLogger.log(
+      "Failed: %s",
+      error instanceof Error ? error.message : error,
+    );
+    if (
+      error instanceof InvalidCompleteStatusStackError &&
+      error.failures.length
+    ) {
+      prefixLogger.log("Root cause:\n%s", formatStackFailures(error.failures));
+    }
+  }
+
+  async function deleteChangeSets() {
+    for (const [id, stackPlan] of planned) {
+      if (!stackPlan.deferred && stackPlan.plan) {
+        await deleteChangeSet(stacks[id], stackPlan.plan.changeSetId);
+      }
+    }
+  }
+
+  function existingResults(outcome: DeployStackOutcome) {
+    return Object.fromEntries(
+      order.map((id) => [
+        id,
+        { outcome, stack: existingStacks.get(id)!, outputs: outputs.get(id)! },
+      ]),
+    );
+  }
+
+  function deploy(id: string) {
+    let deployment = deployments.get(id);
+    if (!deployment) {
+      deployment = deployAfterDependencies(id).catch((e) => {
+        reportFailure(id, e);
+        throw e;
+      });
+      deployments.set(id, deployment);
+    }
+    return deployment;
+  }
+
+  async function deployAfterDependencies(
+    id: string,
+  ): Promise<StackDeploymentResult> {
+    const options = stacks[id];
+    const stackPlan = planned.get(id)!;
+    const plannedFirst = stackPlan.deferred ? null : stackPlan.plan;
+
+    const dependencyIds = [...dependencies.get(id)!];
+    const dependencyResults = await Promise.allSettled(
+      dependencyIds.map(deploy),
+    );
+    const failedDependency = dependencyIds.find(
+      (_, index) => dependencyResults[index].status === "rejected",
+    );
+    if (failedDependency) {
+      if (plannedFirst) {
+        await deleteChangeSet(options, plannedFirst.changeSetId);
+      }
+      throw new StackDependencyFailedError(failedDependency);
+    }
+
+    // The work slot is released while prompting, so other stacks deploy
+    // while waiting for an answer.
+    const replanned = await limit(() => replanIfChanged(id, plannedFirst));
+    const plan = replanned ? replanned.plan : plannedFirst;
+    if (
+      replanned &&
+      plan &&
+      !(await promptLimit(async () => prompt(`Deploy ${id}?`)))
+    ) {
+      await deleteChangeSet(options, plan.changeSetId);
+      const stack = await describeStack(options.client, options.stackName);
+      return { outcome: "declined", stack, outputs: outputs.get(id)! };
+    }
+
+    if (!plan) {
+      const stack = await describeStack(options.client, options.stackName);
+      return { outcome: "no-changes", stack, outputs: outputs.get(id)! };
+    }
+
+    return limit(() => deployPlanned(id, plan));
+  }
+
+  // Plans the stack again if it was deferred or the outputs it references
+  // changed, or returns null if the plan is still current.
+  async function replanIfChanged(
+    id: string,
+    plan: ChangeSetPlan | null,
+  ): Promise<{ plan: ChangeSetPlan | null } | null> {
+    const options = stacks[id];
+    const stackLogger = createPrefixLogger(logger, id);
+    const stackPlan = planned.get(id)!;
+    const parameters = resolveParameters(options, outputs, [])!;
+
+    if (
+      !stackPlan.deferred &&
+      stackPlan.parameters === JSON.stringify(parameters)
+    ) {
+      return null;
+    }
+    if (plan) {
+      await deleteChangeSet(options, plan.changeSetId);
+    }
+    stackLogger.log("Planning with the new outputs of its dependencies...");
+    return {
+      plan: await planStack({
+        ...options,
+        logger: stackLogger,
+        prompt,
+        signal,
+        polling,
+        changeFormatter,
+        parameters,
+      }),
+    };
+  }
+
+  async function deployPlanned(
+    id: string,
+    plan: ChangeSetPlan,
+  ): Promise<StackDeploymentResult> {
+    const options = stacks[id];
+    const stackLogger = createPrefixLogger(logger, id);
+    const stack = await applyChangeSet({
+      ...options,
+      logger: stackLogger,
+      waiter: createWaiter?.(id, stackLogger),
+      signal,
+      polling,
+      changeSetId: plan.changeSetId,
+    });
+    outputs.set(id, getStackOutputs(stack));
+    return {
+      outcome:
+        plan.changeSetType === "CREATE"
+          ? "created"
+          : plan.changeSetType === "IMPORT"
+          ? "imported"
+          : "updated",
+      stack,
+      outputs: outputs.get(id)!,
+    };
+  }
+}
+
+// The IDs of the stacks referenced by each stack.
+function getDependencies(stacks: Record<string, StackDeployment>) {
+  const dependencies = new Map<string, Set<string>>();
+  for (const [id, { parameters = [] }] of Object.entries(stacks)) {
+    const ids = new Set<string>();
+    for (const parameter of parameters) {
+      for (const [, dependency] of (parameter.ParameterValue ?? "").matchAll(
+        referencePattern,
+      )) {
+        if (Object.prototype.hasOwnProperty.call(stacks, dependency)) {
+          ids.add(dependency);
+        }
+      }
+    }
+    dependencies.set(id, ids);
+  }
+  return dependencies;
+}
+
+// Orders the stacks so that each comes after the stacks it references.
+function orderStacks(dependencies: Map<string, Set<string>>) {
+  const order: string[] = [];
+  const visiting: string[] = [];
+  for (const id of dependencies.keys()) {
+    visit(id);
+  }
+  return order;
+
+  function visit(id: string) {
+    if (order.includes(id)) {
+      return;
+    }
+    if (visiting.includes(id)) {
+      throw new StackDependencyCycleError([
+        ...visiting.slice(visiting.indexOf(id)),
+        id,
+      ]);
+    }
+    visiting.push(id);
+    for (const dependency of dependencies.get(id)!) {
+      visit(dependency);
+    }
+    visiting.pop();
+    order.push(id);
+  }
+}
+
+// Resolves the parameterResolvers values of each stack once, before
+// planning, so they are not resolved (or prompted for) again when re-planning.
+async function resolveStackParameters(
+  stacks: Record<string, StackDeployment>,
+  logger: Logger,
+) {
+  const resolved: Record<string, StackDeployment> = {};
+  for (const [id, { parameterResolvers, ...options }] of Object.entries(
+    stacks,
+  )) {
+    resolved[id] = options;
+    if (options.parameters && parameterResolvers) {
+      resolved[id].parameters = await resolveParameterValues(
+        options.parameters,
+        parameterResolvers,
+        options.client,
+        createPrefixLogger(logger, id),
+      );
+    }
+  }
+  return resolved;
+}
+
+// Replaces the output references in the parameter values, or returns null if
+// they reference a pending stack that does not have the output yet.
+function resolveParameters(
+  { parameters = [] }: StackDeployment,
+  outputs: Map<string, Record<string, string>>,
+  pending: string[],
+): CloudFormation.Parameter[] | null {
+  let missingPendingOutput = false;
+  const resolved = parameters.map((parameter) => {
+    if (parameter.ParameterValue === undefined) {
+      return parameter;
+    }
+    const value = parameter.ParameterValue.replace(
+      referencePattern,
+      (reference, id: string, outputKey: string) => {
+        // Not a stack ID, as all the referenced stacks are described first.
+        if (!outputs.has(id)) {
+          return reference;
+        }
+        const value = outputs.get(id)![outputKey];
+        if (value !== undefined) {
+          return value;
+        }
+        if (!pending.includes(id)) {
+          throw new StackReferenceError(
+            reference,
+            `stack ${id} does not have the output ${outputKey}`,
+          );
+        }
+        missingPendingOutput = true;
+        return reference;
+      },
+    );
+    return { ...parameter, ParameterValue: value };
+  });
+  return missingPendingOutput ? null : resolved;
+}
+
+async function deleteChangeSet(
+  { client }: StackDeployment,
+  changeSetId: string,
+) {
+  await client.send(
+    new CloudFormation.DeleteChangeSetCommand({ ChangeSetName: changeSetId }),
+  );
+}
+
+// Limits how many of the functions passed to the returned function run at
+// once.
+function createLimit(concurrency: number) {
+  let running = 0;
+  const queue: (() => void)[] = [];
+  return async function limit<T>(fn: () => Promise<T>): Promise<T> {
+    while (running >= concurrency) {
+      await new Promise<void>((resolve) => queue.push(resolve));
+    }
+    running++;
+    try {
+      return await fn();
+    } finally {
+      running--;
+      queue.shift()?.();
+    }
+  };
+}
+
+// Prefixes each line logged with the stack ID.
+function createPrefixLogger(logger: Logger, id: string): Logger {
+  return {
+    log(format: string, ...args: any[]) {
+      logger.log("%s", util.format(format, ...args).replace(/^/gm, `[${id}] `));
+    },
+  };
+}
@@ -0,0 +1,79 @@
+import * as CloudFormation from "@aws-sdk/client-cloudformation";
+
+import { PollingOptions } from "./deployStack";
+import {
+  createPoller,
+  createStackContext,
+  retryThrottled,
+} from "./stackPolling";
+
+export interface StackDriftResult {
+  detection: CloudFormation.DescribeStackDriftDetectionStatusOutput;
+  // Only resources that were modified or deleted.
+  drifts: CloudFormation.StackResourceDrift[];
+}
+
+export interface DetectStackDriftOptions {
+  // Aborting throws DeployStackAbortedError.
+  signal?: AbortSignal;
+  // The timeout applies to waiting for the detection to complete.
+  polling?: PollingOptions;
+}
+
+export default async function detectStackDrift(
+  client: CloudFormation.CloudFormationClient,
+  stackName: string,
+  { signal, polling }: DetectStackDriftOptions = {},
+): Promise<StackDriftResult> {
+  const { StackDriftDetectionId } = await client.send(
+    new CloudFormation.DetectStackDriftCommand({ StackName: stackName }),
+  );
+
+  const poller = createPoller(
+    createStackContext({ client, signal, polling }),
+    1000,
+  );
+  let detection: CloudFormation.DescribeStackDriftDetectionStatusOutput;
+  do {
+    await poller.wait();
+    detection = await retryThrottled(poller, () =>
+      client.send(
+        new CloudFormation.DescribeStackDriftDetectionStatusCommand({
+          StackDriftDetectionId,
+        }),
+      ),
+    );
+  } while (detection.DetectionStatus === "DETECTION_IN_PROGRESS");
+
+  const drifts: CloudFormation.StackResourceDrift[] = [];
+  if (detection.StackDriftStatus === "DRIFTED") {
+    for await (const response of CloudFormation.paginateDescribeStackResourceDrifts(
+      { client },
+      {
+        StackName: stackName,
+        StackResourceDriftStatusFilters: ["MODIFIED", "DELETED"],
+      },
+    )) {
+      drifts.push(...(response.StackResourceDrifts ?? []));
+    }
+  }
+
+  return { detection, drifts };
+}
+
+export function formatStackDrifts(
+  drifts: CloudFormation.StackResourceDrift[],
+): string {
+  const lines: string[] = [];
+  for (const drift of drifts) {
+    lines.push(
+      `  ${drift.LogicalResourceId} (${drift.ResourceType}): ${drift.StackResourceDriftStatus}`,
+    );
+    for (const difference of drift.PropertyDifferences ?? []) {
+      lines.push(
+        `    ${difference.PropertyPath}: ${difference.DifferenceType}, expected ${difference.ExpectedValue}, actual ${difference.ActualValue}`,
+      );
+    }
+  }
+  return lines.join("\n");
+}
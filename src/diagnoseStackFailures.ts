@@ -0,0 +1,204 @@
+import * as CloudFormation from "@aws-sdk/client-cloudformation";
+
+import { formatNestedPath, isNestedStack } from "./nestedStacks";
+
+export interface StackFailure {
+  // Logical IDs of the nested stack resources containing the resource, as for
+  // StackResourceTreeItem.
+  path: string[];
+  logicalId: string;
+  resourceType: string;
+  // e.g. CREATE_FAILED
+  status: string;
+  reason: string;
+  timestamp: Date;
+  // What to do about known errors.
+  hint?: string;
+}
+
+// Resources that failed only because another resource failed first.
+const cascadeReasonPattern = /^Resource (creation|update|deletion) cancelled/;
+
+const failureHints: { pattern: RegExp; hint: string }[] = [
+  {
+    pattern: /Requires capabilities|InsufficientCapabilities/i,
+    hint: "Pass the capabilities the template requires, e.g. with --capabilities or --auto-capabilities.",
+  },
+  {
+    pattern: /already exists/i,
+    hint: "A resource with the same name exists outside this stack. Delete it, import it into the stack, or remove the explicit name so CloudFormation generates one.",
+  },
+  {
+    pattern: /limit exceeded|LimitExceeded|exceeded .*limit|quota/i,
+    hint: "An account limit was reached. Delete unused resources, or request an increase in Service Quotas.",
+  },
+  {
+    pattern: /not authorized|AccessDenied|Access Denied/i,
+    hint: "The credentials, or the stack role if roleArn is set, lack the permissions for this resource.",
+  },
+  {
+    pattern: /Rollback triggered by alarm/i,
+    hint: "A rollback alarm went into ALARM. Check the alarm before deploying again.",
+  },
+];
+
+// Finds the root causes of the failure of the latest stack operation: the
+// _FAILED events since it started and before it started rolling back, without
+// the resources that were only cancelled because of them. Failed nested
+// stacks are replaced by their own root causes. If no resource failed, e.g.
+// for a rollback alarm, this is the reason the stack started rolling back.
+export default async function diagnoseStackFailures(
+  client: CloudFormation.CloudFormationClient,
+  stackName: string,
+): Promise<StackFailure[]> {
+  const events = await readOperationEvents(client, stackName);
+  if (!events.length) {
+    return [];
+  }
+  const startTime = events[0].Timestamp!;
+  // Resources that fail while rolling back are usually caused by the
+  // earlier failures, so only those are returned if there are any.
+  const rollbackIndex = events.findIndex(
+    (event, index) =>
+      index > 0 &&
+      isStackEvent(event) &&
+      event.ResourceStatus!.endsWith("ROLLBACK_IN_PROGRESS"),
+  );
+  const failures = await findFailures(
+    client,
+    rollbackIndex !== -1 ? events.slice(0, rollbackIndex) : events,
+    startTime,
+    [],
+  );
+  if (failures.length) {
+    return failures;
+  }
+  if (rollbackIndex !== -1) {
+    const rollbackFailures = await findFailures(client, events, startTime, []);
+    if (rollbackFailures.length) {
+      return rollbackFailures;
+    }
+  }
+  const rollback = events.find(
+    (event) =>
+      isStackEvent(event) &&
+      /ROLLBACK_IN_PROGRESS$|_FAILED$/.test(event.ResourceStatus!) &&
+      !!event.ResourceStatusReason,
+  );
+  return rollback ? [createFailure([], rollback)] : [];
+}
+
+export function formatStackFailures(failures: StackFailure[]): string {
+  const lines: string[] = [];
+  for (const failure of failures) {
+    lines.push(
+      `  ${formatNestedPath(failure.path, failure.logicalId)} (${
+        failure.resourceType
+      }): ${failure.status}: ${failure.reason}`,
+    );
+    if (failure.hint) {
+      lines.push(`    Hint: ${failure.hint}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+async function findFailures(
+  client: CloudFormation.CloudFormationClient,
+  events: CloudFormation.StackEvent[],
+  startTime: Date,
+  path: string[],
+): Promise<StackFailure[]> {
+  const failures: StackFailure[] = [];
+  for (const event of events) {
+    if (
+      isStackEvent(event) ||
+      !event.ResourceStatus?.endsWith("_FAILED") ||
+      cascadeReasonPattern.test(event.ResourceStatusReason ?? "")
+    ) {
+      continue;
+    }
+    if (isNestedStack(event)) {
+      const nestedPath = [...path, event.LogicalResourceId!];
+      const nestedFailures = await findFailures(
+        client,
+        await readEventsSince(client, event.PhysicalResourceId!, startTime),
+        startTime,
+        nestedPath,
+      );
+      if (nestedFailures.length) {
+        failures.push(...nestedFailures);
+        continue;
+      }
+    }
+    failures.push(createFailure(path, event));
+  }
+  return failures;
+}
+
+function createFailure(
+  path: string[],
+  event: CloudFormation.StackEvent,
+): StackFailure {
+  const reason = event.ResourceStatusReason ?? "";
+  return {
+    path,
+    logicalId: event.LogicalResourceId!,
+    resourceType: event.ResourceType!,
+    status: event.ResourceStatus!,
+    reason,
+    timestamp: event.Timestamp!,
+    hint: failureHints.find(({ pattern }) => pattern.test(reason))?.hint,
+  };
+}
+
+// The events of the latest operation, oldest first, starting from the
+// "User Initiated" event of the stack itself.
+async function readOperationEvents(
+  client: CloudFormation.CloudFormationClient,
+  stackName: string,
+) {
+  const events: CloudFormation.StackEvent[] = [];
+  for await (const response of CloudFormation.paginateDescribeStackEvents(
+    { client },
+    { StackName: stackName },
+  )) {
+    for (const event of response.StackEvents ?? []) {
+      events.push(event);
+      if (
+        isStackEvent(event) &&
+        event.ResourceStatus?.endsWith("_IN_PROGRESS") &&
+        event.ResourceStatusReason === "User Initiated"
+      ) {
+        return events.reverse();
+      }
+    }
+  }
+  return events.reverse();
+}
+
+// Nested stacks don't have "User Initiated" events, so their events are read
+// back to the start of the operation of the top-level stack.
+async function readEventsSince(
+  client: CloudFormation.CloudFormationClient,
+  stackName: string,
+  startTime: Date,
+) {
+  const events: CloudFormation.StackEvent[] = [];
+  for await (const response of CloudFormation.paginateDescribeStackEvents(
+    { client },
+    { StackName: stackName },
+  )) {
+    for (const event of response.StackEvents ?? []) {
+      if (event.Timestamp! < startTime) {
+        return events.reverse();
+      }
+      events.push(event);
+    }
+  }
+  return events.reverse();
+}
+
+function isStackEvent(event: CloudFormation.StackEvent) {
+  return event.PhysicalResourceId === event.StackId;
+}
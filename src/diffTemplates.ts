@@ -0,0 +1,139 @@
+import * as CloudFormation from "@aws-sdk/client-cloudformation";
+
+export interface TemplateDifference {
+  // e.g. "Resources.Function.Properties.Timeout" or "Tags[0].Value"
+  path: string;
+  kind: "added" | "removed" | "changed";
+  before?: unknown;
+  after?: unknown;
+}
+
+// Compares two parsed templates, returning the paths of the differences.
+// Intrinsic functions like { "Fn::Sub": ... } are compared as a whole.
+export default function diffTemplates(
+  before: unknown,
+  after: unknown,
+): TemplateDifference[] {
+  const differences: TemplateDifference[] = [];
+  diffValues(differences, "", before, after);
+  return differences;
+}
+
+// Compares the parameter values of a deployed stack with those about to be
+// deployed. Parameters using UsePreviousValue are not changed.
+// The values of NoEcho parameters are masked, and since DescribeStacks masks
+// their deployed values they can't be compared, so are always listed.
+export function diffParameterValues(
+  deployed: CloudFormation.Parameter[],
+  local: CloudFormation.Parameter[],
+  noEchoKeys: ReadonlySet<string> = new Set(),
+): TemplateDifference[] {
+  const differences: TemplateDifference[] = [];
+  const deployedValues = new Map(
+    deployed.map((parameter) => [
+      parameter.ParameterKey!,
+      parameter.ParameterValue,
+    ]),
+  );
+  for (const parameter of local) {
+    if (parameter.UsePreviousValue) {
+      continue;
+    }
+    const path = parameter.ParameterKey!;
+    const before = deployedValues.get(path);
+    const noEcho = noEchoKeys.has(path) || before === "****";
+    const after = noEcho ? "****" : parameter.ParameterValue;
+    if (!deployedValues.has(path)) {
+      differences.push({ path, kind: "added", after });
+    } else if (noEcho || before !== after) {
+      differences.push({ path, kind: "changed", before, after });
+    }
+  }
+  return differences;
+}
+
+export function formatTemplateDifferences(
+  differences: TemplateDifference[],
+): string {
+  if (!differences.length) {
+    return "  (no differences)";
+  }
+  return differences
+    .map(({ path, kind, before, after }) => {
+      switch (kind) {
+        case "added":
+          return `  + ${path}: ${formatValue(after)}`;
+        case "removed":
+          return `  - ${path}: ${formatValue(before)}`;
+        case "changed":
+          return `  ~ ${path}: ${formatValue(before)} => ${formatValue(after)}`;
+      }
+    })
+    .join("\n");
+}
+
+function diffValues(
+  differences: TemplateDifference[],
+  path: string,
+  before: unknown,
+  after: unknown,
+) {
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const length = Math.max(before.length, after.length);
+    for (let index = 0; index < length; index++) {
+      const itemPath = `${path}[${index}]`;
+      if (index >= after.length) {
+        differences.push({
+          path: itemPath,
+          kind: "removed",
+          before: before[index],
+        });
+      } else if (index >= before.length) {
+        differences.push({
+          path: itemPath,
+          kind: "added",
+          after: after[index],
+        });
+      } else {
+        diffValues(differences, itemPath, before[index], after[index]);
+      }
+    }
+    return;
+  }
+
+  if (isMapping(before) && isMapping(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      const keyPath = path ? `${path}.${key}` : key;
+      if (!(key in after)) {
+        differences.push({
+          path: keyPath,
+          kind: "removed",
+          before: before[key],
+        });
+      } else if (!(key in before)) {
+        differences.push({ path: keyPath, kind: "added", after: after[key] });
+      } else {
+        diffValues(differences, keyPath, before[key], after[key]);
+      }
+    }
+    return;
+  }
+
+  if (JSON.stringify(before) !== JSON.stringify(after)) {
+    differences.push({ path, kind: "changed", before, after });
+  }
+}
+
+function isMapping(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return false;
+  }
+  const keys = Object.keys(value);
+  return !(keys.length === 1 && /^(Ref|Condition|Fn::\w+)$/.test(keys[0]));
+}
+
+function formatValue(value: unknown) {
+  const text = JSON.stringify(value) ?? "undefined";
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
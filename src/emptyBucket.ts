@@ -0,0 +1,48 @@
+import * as S3 from "@aws-sdk/client-s3";
+
+import { Logger } from "./deployStack";
+import { EmptyBucketFailedError } from "./errors";
+
+// Deletes every object version and delete marker in the bucket, so that
+// CloudFormation can delete it. Does nothing if the bucket does not exist.
+export default async function emptyBucket(
+  client: S3.S3Client,
+  bucket: string,
+  logger: Logger = console,
+): Promise<void> {
+  logger.log("Emptying bucket %O", bucket);
+  try {
+    let page: S3.ListObjectVersionsOutput = {};
+    do {
+      // Each page has at most 1000 keys, the limit for DeleteObjects.
+      page = await client.send(
+        new S3.ListObjectVersionsCommand({
+          Bucket: bucket,
+          KeyMarker: page.NextKeyMarker,
+          VersionIdMarker: page.NextVersionIdMarker,
+        }),
+      );
+      const objects = [...(page.Versions ?? []), ...(page.DeleteMarkers ?? [])];
+      if (!objects.length) {
+        continue;
+      }
+      const result = await client.send(
+        new S3.DeleteObjectsCommand({
+          Bucket: bucket,
+          Delete: {
+            Objects: objects.map(({ Key, VersionId }) => ({ Key, VersionId })),
+            Quiet: true,
+          },
+        }),
+      );
+      if (result.Errors?.length) {
+        throw new EmptyBucketFailedError(bucket, result.Errors);
+      }
+    } while (page.IsTruncated);
+  } catch (e) {
+    if (e instanceof Error && e.name === "NoSuchBucket") {
+      return;
+    }
+    throw e;
+  }
+}
@@ -0,0 +1,302 @@
+import * as CloudFormation from "@aws-sdk/client-cloudformation";
+import * as S3 from "@aws-sdk/client-s3";
+
+import {
+  ChangeSetPolicyViolation,
+  formatChangeSetPolicyViolations,
+} from "./changeSetPolicy";
+import { StackDeploymentResult } from "./deployStacks";
+import { formatStackDrifts } from "./detectStackDrift";
+import { StackFailure } from "./diagnoseStackFailures";
+
+// CloudFormation rejects larger TemplateBody values, they must be uploaded to
+// S3 and passed as TemplateURL instead.
+export const maxTemplateBodySize = 51_200;
+
+export class DeployStackError extends Error {}
+
+export class InvalidStatusBeforeUpdateStackError extends DeployStackError {
+  public stackDetails: CloudFormation.Stack;
+
+  constructor(stackDetails: CloudFormation.Stack) {
+    const { StackName, StackStatus, StackStatusReason } = stackDetails;
+    super(
+      `Stack '${StackName}' cannot be updated when it has status ${StackStatus}: ${StackStatusReason}`,
+    );
+    this.stackDetails = stackDetails;
+  }
+}
+
+export class InvalidCompleteStatusStackError extends DeployStackError {
+  public stackDetails: CloudFormation.Stack;
+  // The events that caused the failure, see diagnoseStackFailures().
+  public failures: StackFailure[];
+
+  constructor(
+    stackDetails: CloudFormation.Stack,
+    type: "CREATE" | "UPDATE" | "IMPORT" | "DELETE",
+    failures: StackFailure[] = [],
+  ) {
+    const { StackName, StackStatus, StackStatusReason } = stackDetails;
+    super(
+      `Stack '${StackName}' failed to ${type}, it now has status ${StackStatus}: ${StackStatusReason}`,
+    );
+    this.stackDetails = stackDetails;
+    this.failures = failures;
+  }
+}
+
+export class TemplateTooLargeError extends DeployStackError {
+  public templateSize: number;
+
+  constructor(templateSize: number) {
+    super(
+      `Template body is ${templateSize} bytes, over the ${maxTemplateBodySize} byte limit for inline templates. A template bucket is required to deploy it.`,
+    );
+    this.templateSize = templateSize;
+  }
+}
+
+export class InvalidTemplateOptionsError extends DeployStackError {
+  // Those of templateBody, templateUrl and usePreviousTemplate that were set.
+  public templateOptions: string[];
+
+  constructor(templateOptions: string[]) {
+    super(
+      `Exactly one of templateBody, templateUrl or usePreviousTemplate is required, got ${
+        templateOptions.join(", ") || "none"
+      }`,
+    );
+    this.templateOptions = templateOptions;
+  }
+}
+
+export class InvalidConcurrencyError extends DeployStackError {
+  public concurrency: number;
+
+  constructor(concurrency: number) {
+    super(`concurrency must be at least 1, got ${concurrency}`);
+    this.concurrency = concurrency;
+  }
+}
+
+export class ArtifactNotFoundError extends DeployStackError {
+  // e.g. "Function.Code"
+  public property: string;
+  public artifactPath: string;
+
+  constructor(property: string, artifactPath: string) {
+    super(`${property} path does not exist: ${artifactPath}`);
+    this.property = property;
+    this.artifactPath = artifactPath;
+  }
+}
+
+export class NoPreviousValuesError extends DeployStackError {
+  public previousValues: string[];
+
+  constructor(stackName: string, previousValues: string[]) {
+    super(
+      `Stack '${stackName}' needs to be created, so there are no previous values for: ${previousValues.join(
+        ", ",
+      )}`,
+    );
+    this.previousValues = previousValues;
+  }
+}
+
+export class StackDriftedError extends DeployStackError {
+  public drifts: CloudFormation.StackResourceDrift[];
+
+  constructor(stackName: string, drifts: CloudFormation.StackResourceDrift[]) {
+    super(
+      `Stack '${stackName}' has drifted resources:\n${formatStackDrifts(
+        drifts,
+      )}`,
+    );
+    this.drifts = drifts;
+  }
+}
+
+export class DriftDetectionFailedError extends DeployStackError {
+  public detection: CloudFormation.DescribeStackDriftDetectionStatusOutput;
+
+  constructor(
+    stackName: string,
+    detection: CloudFormation.DescribeStackDriftDetectionStatusOutput,
+  ) {
+    super(
+      `Stack '${stackName}' drift detection failed: ${detection.DetectionStatusReason}`,
+    );
+    this.detection = detection;
+  }
+}
+
+export class DeployStackAbortedError extends DeployStackError {
+  constructor() {
+    super("Deploy was aborted");
+  }
+}
+
+export class DeployStackTimeoutError extends DeployStackError {
+  public timeout: number;
+
+  constructor(timeout: number) {
+    super(`Deploy timed out after ${timeout}ms`);
+    this.timeout = timeout;
+  }
+}
+
+export class ChangeSetNotAvailableError extends DeployStackError {
+  public changeSetDetails: CloudFormation.ChangeSetSummary;
+
+  constructor(
+    changeSetDetails: CloudFormation.ChangeSetSummary,
+    reason = changeSetDetails.StatusReason,
+  ) {
+    const { ExecutionStatus, Status } = changeSetDetails;
+    super(`\
+Change set cannot be executed:
+  execution status: ${ExecutionStatus}
+  status: ${Status}
+  reason: ${reason}`);
+    this.changeSetDetails = changeSetDetails;
+  }
+}
+
+export class TerminationProtectionEnabledError extends DeployStackError {
+  public stackDetails: CloudFormation.Stack;
+
+  constructor(stackDetails: CloudFormation.Stack) {
+    super(
+      `Stack '${stackDetails.StackName}' has termination protection enabled, use force to disable it and delete anyway`,
+    );
+    this.stackDetails = stackDetails;
+  }
+}
+
+export class RetainResourcesNotAllowedError extends DeployStackError {
+  public stackDetails: CloudFormation.Stack;
+
+  constructor(stackDetails: CloudFormation.Stack) {
+    super(
+      `Stack '${stackDetails.StackName}' has status ${stackDetails.StackStatus}, resources can only be retained when it has status DELETE_FAILED`,
+    );
+    this.stackDetails = stackDetails;
+  }
+}
+
+export class EmptyBucketFailedError extends DeployStackError {
+  public bucket: string;
+  // The objects DeleteObjects failed to delete, with their Key and Message.
+  public errors: S3._Error[];
+
+  constructor(bucket: string, errors: S3._Error[]) {
+    const [error] = errors;
+    super(
+      `Failed to delete ${errors.length} objects from bucket '${bucket}', e.g. ${error.Key}: ${error.Message}`,
+    );
+    this.bucket = bucket;
+    this.errors = errors;
+  }
+}
+
+export class PreflightValidationError extends DeployStackError {
+  public problems: string[];
+
+  constructor(problems: string[]) {
+    super(
+      `Stack failed validation:\n${problems
+        .map((problem) => `  ${problem}`)
+        .join("\n")}`,
+    );
+    this.problems = problems;
+  }
+}
+
+export class InvalidImportResourcesError extends DeployStackError {
+  public problems: string[];
+
+  constructor(problems: string[]) {
+    super(
+      `Resources cannot be imported:\n${problems
+        .map((problem) => `  ${problem}`)
+        .join("\n")}`,
+    );
+    this.problems = problems;
+  }
+}
+
+export class ChangeSetPolicyViolationError extends DeployStackError {
+  public violations: ChangeSetPolicyViolation[];
+
+  constructor(violations: ChangeSetPolicyViolation[]) {
+    super(
+      `Change set replaces or removes protected resources:\n${formatChangeSetPolicyViolations(
+        violations,
+      )}`,
+    );
+    this.violations = violations;
+  }
+}
+
+export class StackReferenceError extends DeployStackError {
+  public reference: string;
+
+  constructor(reference: string, reason: string) {
+    super(`Cannot resolve ${reference}: ${reason}`);
+    this.reference = reference;
+  }
+}
+
+export class StackDependencyCycleError extends DeployStackError {
+  public cycle: string[];
+
+  constructor(cycle: string[]) {
+    super(`Stacks reference each other's outputs: ${cycle.join(" -> ")}`);
+    this.cycle = cycle;
+  }
+}
+
+export class ParameterResolutionError extends DeployStackError {
+  public parameterKey: string;
+
+  constructor(parameterKey: string, value: string, reason: string) {
+    super(`Cannot resolve parameter ${parameterKey} from ${value}: ${reason}`);
+    this.parameterKey = parameterKey;
+  }
+}
+
+export class DeployHookVetoedError extends DeployStackError {
+  public stage: string;
+
+  constructor(stage: string) {
+    super(`Deploy vetoed by the ${stage} hook`);
+    this.stage = stage;
+  }
+}
+
+export class StackDependencyFailedError extends DeployStackError {
+  public dependency: string;
+
+  constructor(dependency: string) {
+    super(`Skipped, as ${dependency} failed`);
+    this.dependency = dependency;
+  }
+}
+
+// The errors are by stack ID, as are the results of the stacks that did
+// deploy.
+export class DeployStacksFailedError extends DeployStackError {
+  public errors: Record<string, unknown>;
+  public stacks: Record<string, StackDeploymentResult>;
+
+  constructor(
+    errors: Record<string, unknown>,
+    stacks: Record<string, StackDeploymentResult>,
+  ) {
+    super(`Failed to deploy: ${Object.keys(errors).join(", ")}`);
+    this.errors = errors;
+    this.stacks = stacks;
+  }
+}
@@ -0,0 +1,1424 @@
+import * as CloudFormation from "@aws-sdk/client-cloudformation";
+import * as AWS from "@aws-sdk/types";
+
+import { Clock } from "./deployStack";
+import parseTemplate, { Template } from "./parseTemplate";
+import { hasCapability } from "./preflightCheck";
+
+// A clock where sleeping advances the time immediately, so polling doesn't
+// wait. Pass it as the polling clock option.
+export class FakeClock implements Clock {
+  private time: number;
+
+  constructor(startTime = Date.now()) {
+    this.time = startTime;
+  }
+
+  now() {
+    return this.time;
+  }
+
+  async sleep(ms: number, signal?: AbortSignal) {
+    // Yield, so other promises run as they would while waiting.
+    await Promise.resolve();
+    if (signal?.aborted) {
+      throw createError("AbortError", "The operation was aborted");
+    }
+    this.time += ms;
+  }
+
+  advance(ms: number) {
+    this.time += ms;
+  }
+}
+
+export interface FakeStackInit {
+  StackName: string;
+  // Default: CREATE_COMPLETE
+  StackStatus?: string;
+  StackStatusReason?: string;
+  // Default: a template without resources.
+  TemplateBody?: string;
+  Parameters?: CloudFormation.Parameter[];
+  Outputs?: CloudFormation.Output[];
+  Tags?: CloudFormation.Tag[];
+  DisableRollback?: boolean;
+  EnableTerminationProtection?: boolean;
+  // Returned by drift detection, which otherwise finds the stack in sync.
+  Drifts?: CloudFormation.StackResourceDrift[];
+  // Drift detection fails with this reason instead.
+  DriftDetectionFailure?: string;
+}
+
+// Scripts the next operation of a stack, from executing a change set or
+// deleting it.
+export interface FakeOperationScript {
+  // The resource fails with the reason, which rolls the operation back,
+  // unless rollback is disabled.
+  failResource?: string;
+  reason?: string;
+  // Resources after failResource that were still in progress, and so fail
+  // with "Resource creation cancelled" or similar.
+  cancelResources?: string[];
+  // Rolls back once the resources complete, with this reason, as when a
+  // rollback trigger alarm goes into ALARM.
+  rollbackReason?: string;
+  // The rollback also fails, e.g. UPDATE_ROLLBACK_FAILED.
+  rollbackFails?: boolean;
+  // Milliseconds each resource takes. Default: 1000
+  resourceDuration?: number;
+}
+
+export interface FakeCall {
+  // The command name without "Command", e.g. "DescribeStacks".
+  name: string;
+  input: CloudFormation.ServiceInputTypes;
+}
+
+export interface FakeCloudFormationClientOptions {
+  region?: string;
+  clock?: FakeClock;
+  // Changes per DescribeChangeSet page. Default: 100
+  changeSetPageSize?: number;
+}
+
+interface FakeStack {
+  stack: CloudFormation.Stack;
+  templateBody: string;
+  resources: CloudFormation.StackResource[];
+  // Newest first, as DescribeStackEvents returns them.
+  events: CloudFormation.StackEvent[];
+  drifts: CloudFormation.StackResourceDrift[];
+  driftDetectionFailure?: string;
+  stackPolicyBody?: string;
+  // Scheduled changes of the current operation, oldest first.
+  timeline: { time: number; apply: (time: number) => void }[];
+  deleted: boolean;
+}
+
+interface FakeChangeSet {
+  changeSet: CloudFormation.DescribeChangeSetOutput;
+  changes: CloudFormation.Change[];
+  type: string;
+  roleArn?: string;
+  templateBody: string;
+  parameters: CloudFormation.Parameter[];
+  tags: CloudFormation.Tag[];
+}
+
+interface ResourceChange {
+  logicalId: string;
+  type: string;
+  action: "Add" | "Modify" | "Remove" | "Import";
+  // The identifier of an imported resource.
+  physicalId?: string;
+}
+
+type OperationKind = "CREATE" | "UPDATE" | "IMPORT" | "DELETE";
+
+// The identifier properties returned by GetTemplateSummary, for the resource
+// types that can be imported in tests.
+const resourceIdentifierProperties: Record<string, string[]> = {
+  "AWS::DynamoDB::Table": ["TableName"],
+  "AWS::IAM::Role": ["RoleName"],
+  "AWS::Lambda::Function": ["FunctionName"],
+  "AWS::Logs::LogGroup": ["LogGroupName"],
+  "AWS::S3::Bucket": ["BucketName"],
+  "AWS::SNS::Topic": ["TopicArn"],
+  "AWS::SQS::Queue": ["QueueUrl"],
+};
+
+type Handler = (input: any) => unknown;
+
+// As the real client's send() accepts, so the output type is inferred from
+// the command.
+type Command<
+  Input extends CloudFormation.ServiceInputTypes,
+  Output extends CloudFormation.ServiceOutputTypes,
+> = AWS.Command<
+  CloudFormation.ServiceInputTypes,
+  Input,
+  CloudFormation.ServiceOutputTypes,
+  Output,
+  CloudFormation.CloudFormationClientResolvedConfig
+>;
+
+type Callback<Output> = (err: any, data?: Output) => void;
+
+const emptyTemplate = '{"Resources":{}}';
+
+// An in-memory CloudFormation for tests, simulating the lifecycles of stacks
+// and change sets, with resources and events, on a virtual clock. Pass its
+// clock as the polling clock option so polling finishes immediately:
+//   const client = new FakeCloudFormationClient();
+//   client.addStack({ StackName: "my-app", TemplateBody: template });
+//   await deployStack({ client, polling: { clock: client.clock }, ... });
+// Only the commands used by this package are supported.
+export class FakeCloudFormationClient extends CloudFormation.CloudFormationClient {
+  public clock: FakeClock;
+  // Every command sent, in order.
+  public calls: FakeCall[] = [];
+
+  private region: string;
+  private changeSetPageSize: number;
+  private stacks: FakeStack[] = [];
+  private changeSets: FakeChangeSet[] = [];
+  private templateUrls = new Map<string, string>();
+  private scripts = new Map<string, FakeOperationScript>();
+  private errors: { name: string; error: Error }[] = [];
+  private nextId = 1;
+
+  constructor({
+    region = "us-east-1",
+    clock = new FakeClock(),
+    changeSetPageSize = 100,
+  }: FakeCloudFormationClientOptions = {}) {
+    super({
+      region,
+      credentials: { accessKeyId: "FAKE", secretAccessKey: "FAKE" },
+    });
+    this.region = region;
+    this.clock = clock;
+    this.changeSetPageSize = changeSetPageSize;
+  }
+
+  // Adds an existing stack, with resources from its template.
+  addStack({
+    StackName,
+    StackStatus = "CREATE_COMPLETE",
+    StackStatusReason,
+    TemplateBody = emptyTemplate,
+    Parameters = [],
+    Outputs = [],
+    Tags = [],
+    DisableRollback = false,
+    EnableTerminationProtection = false,
+    Drifts = [],
+    DriftDetectionFailure,
+  }: FakeStackInit): CloudFormation.Stack {
+    const time = new Date(this.clock.now());
+    const stack: FakeStack = {
+      stack: {
+        StackId: this.createArn("stack", StackName),
+        StackName,
+        StackStatus,
+        StackStatusReason,
+        CreationTime: time,
+        Parameters,
+        Outputs,
+        Tags,
+        DisableRollback,
+        EnableTerminationProtection,
+      },
+      templateBody: TemplateBody,
+      resources: [],
+      events: [],
+      drifts: Drifts,
+      driftDetectionFailure: DriftDetectionFailure,
+      timeline: [],
+      deleted: false,
+    };
+    const resourceStatus = StackStatus.startsWith("UPDATE")
+      ? "UPDATE_COMPLETE"
+      : "CREATE_COMPLETE";
+    for (const [logicalId, resource] of Object.entries(
+      parseTemplate(TemplateBody).Resources ?? {},
+    )) {
+      stack.resources.push(
+        this.createResource(stack, logicalId, resource.Type, resourceStatus),
+      );
+    }
+    this.addEvent(stack, time.valueOf(), null, StackStatus, StackStatusReason);
+    // Other operations in progress complete by themselves.
+    if (
+      StackStatus.endsWith("_IN_PROGRESS") &&
+      StackStatus !== "REVIEW_IN_PROGRESS"
+    ) {
+      this.schedule(stack, time.valueOf() + 1000, (time) =>
+        this.setStatus(
+          stack,
+          time,
+          StackStatus.replace(/(_CLEANUP)?_IN_PROGRESS$/, "_COMPLETE"),
+        ),
+      );
+    }
+    this.stacks.push(stack);
+    return clone(stack.stack);
+  }
+
+  // The current state of a stack by name or ID, or undefined if it does not
+  // exist.
+  getStack(stackName: string): CloudFormation.Stack | undefined {
+    this.update();
+    const stack = this.findStack(stackName);
+    return stack && clone(stack.stack);
+  }
+
+  getStackPolicy(stackName: string): string | undefined {
+    return this.findStack(stackName)?.stackPolicyBody;
+  }
+
+  // Makes templates "uploaded" to the URL available to TemplateURL.
+  addTemplateUrl(url: string, templateBody: string) {
+    this.templateUrls.set(url, templateBody);
+  }
+
+  scriptNextOperation(stackName: string, script: FakeOperationScript) {
+    this.scripts.set(stackName, script);
+  }
+
+  // Throws the error from the next command with the name, e.g. to simulate
+  // throttling.
+  failNextCall(name: string, error: Error) {
+    this.errors.push({ name, error });
+  }
+
+  // The same signatures as the real client. The options are ignored.
+  send<
+    Input extends CloudFormation.ServiceInputTypes,
+    Output extends CloudFormation.ServiceOutputTypes,
+  >(
+    command: Command<Input, Output>,
+    options?: AWS.HttpHandlerOptions,
+  ): Promise<Output>;
+  send<
+    Input extends CloudFormation.ServiceInputTypes,
+    Output extends CloudFormation.ServiceOutputTypes,
+  >(command: Command<Input, Output>, cb: Callback<Output>): void;
+  send<
+    Input extends CloudFormation.ServiceInputTypes,
+    Output extends CloudFormation.ServiceOutputTypes,
+  >(
+    command: Command<Input, Output>,
+    options: AWS.HttpHandlerOptions,
+    cb: Callback<Output>,
+  ): void;
+  send(
+    command: Command<
+      CloudFormation.ServiceInputTypes,
+      CloudFormation.ServiceOutputTypes
+    >,
+    optionsOrCb?:
+      | AWS.HttpHandlerOptions
+      | Callback<CloudFormation.ServiceOutputTypes>,
+    cb?: Callback<CloudFormation.ServiceOutputTypes>,
+  ): Promise<CloudFormation.ServiceOutputTypes> | void {
+    const callback = typeof optionsOrCb === "function" ? optionsOrCb : cb;
+    const output = this.handle(command);
+    if (!callback) {
+      return output;
+    }
+    output.then(
+      (data) => callback(null, data),
+      (err) => callback(err),
+    );
+  }
+
+  private async handle(
+    command: Command<
+      CloudFormation.ServiceInputTypes,
+      CloudFormation.ServiceOutputTypes
+    >,
+  ): Promise<CloudFormation.ServiceOutputTypes> {
+    const name: string = command.constructor.name.replace(/Command$/, "");
+    this.calls.push({ name, input: clone(command.input) });
+    // Real responses are never synchronous.
+    await Promise.resolve();
+    this.update();
+
+    const errorIndex = this.errors.findIndex((error) => error.name === name);
+    if (errorIndex !== -1) {
+      throw this.errors.splice(errorIndex, 1)[0].error;
+    }
+    const handler = (this.handlers as Record<string, Handler>)[name];
+    if (!handler) {
+      throw new Error(`FakeCloudFormationClient does not support ${name}`);
+    }
+    const output = handler.call(this, command.input);
+    return clone({ $metadata: {}, ...(output as object) });
+  }
+
+  private handlers = {
+    DescribeStacks(
+      this: FakeCloudFormationClient,
+      { StackName }: CloudFormation.DescribeStacksInput,
+    ): CloudFormation.DescribeStacksOutput {
+      const stacks = StackName
+        ? [this.getExistingStack(StackName)]
+        : this.stacks.filter((stack) => !stack.deleted);
+      return {
+        Stacks: stacks.map(({ stack, templateBody }) => ({
+          ...stack,
+          Parameters: maskNoEchoParameters(templateBody, stack.Parameters),
+        })),
+      };
+    },
+
+    DescribeStackEvents(
+      this: FakeCloudFormationClient,
+      { StackName }: CloudFormation.DescribeStackEventsInput,
+    ): CloudFormation.DescribeStackEventsOutput {
+      return { StackEvents: this.getExistingStack(StackName!).events };
+    },
+
+    DescribeStackResources(
+      this: FakeCloudFormationClient,
+      { StackName }: CloudFormation.DescribeStackResourcesInput,
+    ): CloudFormation.DescribeStackResourcesOutput {
+      return { StackResources: this.getExistingStack(StackName!).resources };
+    },
+
+    GetTemplate(
+      this: FakeCloudFormationClient,
+      { StackName, ChangeSetName }: CloudFormation.GetTemplateInput,
+    ): CloudFormation.GetTemplateOutput {
+      if (ChangeSetName) {
+        return {
+          TemplateBody: this.getChangeSet(ChangeSetName, StackName)
+            .templateBody,
+        };
+      }
+      return { TemplateBody: this.getExistingStack(StackName!).templateBody };
+    },
+
+    ValidateTemplate(
+      this: FakeCloudFormationClient,
+      input: CloudFormation.ValidateTemplateInput,
+    ): CloudFormation.ValidateTemplateOutput {
+      const template = this.parseTemplateInput(input);
+      const capabilities = getRequiredCapabilities(template);
+      return {
+        Parameters: Object.entries(template.Parameters ?? {}).map(
+          ([key, parameter]) => ({
+            ParameterKey: key,
+            DefaultValue:
+              parameter.Default !== undefined
+                ? String(parameter.Default)
+                : undefined,
+            NoEcho: String(parameter.NoEcho) === "true",
+            Description: parameter.Description as string | undefined,
+          }),
+        ),
+        Capabilities: capabilities,
+        CapabilitiesReason: capabilities.length
+          ? "The following resource(s) require capabilities: IAM"
+          : undefined,
+      };
+    },
+
+    GetTemplateSummary(
+      this: FakeCloudFormationClient,
+      input: CloudFormation.GetTemplateSummaryInput,
+    ): CloudFormation.GetTemplateSummaryOutput {
+      const template = input.StackName
+        ? parseTemplateBody(this.getExistingStack(input.StackName).templateBody)
+        : this.parseTemplateInput(input);
+      const resources = Object.entries(template.Resources ?? {});
+      const types = Array.from(new Set(resources.map(([, { Type }]) => Type)));
+      return {
+        Parameters: Object.entries(template.Parameters ?? {}).map(
+          ([key, parameter]) => ({
+            ParameterKey: key,
+            ParameterType: parameter.Type,
+            NoEcho: String(parameter.NoEcho) === "true",
+          }),
+        ),
+        ResourceTypes: types,
+        ResourceIdentifierSummaries: types
+          .filter((type) => resourceIdentifierProperties[type])
+          .map((type) => ({
+            ResourceType: type,
+            LogicalResourceIds: resources
+              .filter(([, resource]) => resource.Type === type)
+              .map(([logicalId]) => logicalId),
+            ResourceIdentifiers: resourceIdentifierProperties[type],
+          })),
+      };
+    },
+
+    CreateChangeSet(
+      this: FakeCloudFormationClient,
+      input: CloudFormation.CreateChangeSetInput,
+    ): CloudFormation.CreateChangeSetOutput {
+      const stackName = input.StackName!;
+      let stack = this.findStack(stackName);
+      const isImport = input.ChangeSetType === "IMPORT";
+      if (
+        input.ChangeSetType === "CREATE" ||
+        // Importing into a new stack creates it.
+        (isImport &&
+          (!stack ||
+            stack.stack.StackStatus === "DELETE_COMPLETE" ||
+            stack.stack.StackStatus === "REVIEW_IN_PROGRESS"))
+      ) {
+        if (stack?.stack.StackStatus === "DELETE_COMPLETE") {
+          stack.deleted = true;
+          stack = undefined;
+        }
+        if (stack && stack.stack.StackStatus !== "REVIEW_IN_PROGRESS") {
+          throw createError(
+            "AlreadyExistsException",
+            `Stack [${stackName}] already exists`,
+          );
+        }
+        if (!stack) {
+          this.addStack({
+            StackName: stackName,
+            StackStatus: "REVIEW_IN_PROGRESS",
+          });
+          stack = this.findStack(stackName)!;
+        }
+      } else if (!stack) {
+        throw createError(
+          "ValidationError",
+          `Stack [${stackName}] does not exist`,
+        );
+      }
+
+      const templateBody = input.UsePreviousTemplate
+        ? stack.templateBody
+        : this.getTemplateBody(input);
+      const template = parseTemplateBody(templateBody);
+      const disallowedTypes = getDisallowedResourceTypes(
+        template,
+        input.ResourceTypes,
+      );
+      if (disallowedTypes.length) {
+        throw createError(
+          "ValidationError",
+          `Resource types are not allowed by ResourceTypes: [${disallowedTypes.join(
+            ",",
+          )}]`,
+        );
+      }
+      const missingCapabilities = getRequiredCapabilities(template).filter(
+        (capability) =>
+          !hasCapability(
+            (input.Capabilities ?? []) as CloudFormation.Capability[],
+            capability,
+          ),
+      );
+      if (missingCapabilities.length) {
+        throw createError(
+          "InsufficientCapabilitiesException",
+          `Requires capabilities : [${missingCapabilities.join(",")}]`,
+        );
+      }
+      const parameters = this.resolveParameters(
+        stack,
+        template,
+        input.Parameters ?? [],
+      );
+      const tags = input.Tags ?? stack.stack.Tags ?? [];
+
+      const unrecognizedTypes = Object.values(template.Resources ?? {})
+        .map((resource) => resource.Type)
+        .filter((type) => !/^(AWS|Custom)::/.test(type));
+      const isNew = stack.stack.StackStatus === "REVIEW_IN_PROGRESS";
+      let resourceChanges = diffResources(
+        isNew ? {} : parseTemplate(stack.templateBody),
+        template,
+      );
+      if (isImport) {
+        resourceChanges = getImportChanges(
+          template,
+          resourceChanges,
+          input.ResourcesToImport ?? [],
+        );
+      }
+      const changes = resourceChanges.map(
+        ({ logicalId, type, action, physicalId }): CloudFormation.Change => ({
+          Type: "Resource",
+          ResourceChange: {
+            Action: action,
+            LogicalResourceId: logicalId,
+            PhysicalResourceId:
+              physicalId ??
+              stack!.resources.find(
+                (resource) => resource.LogicalResourceId === logicalId,
+              )?.PhysicalResourceId,
+            ResourceType: type,
+            Replacement: action === "Modify" ? "False" : undefined,
+          },
+        }),
+      );
+      const noChanges =
+        !isNew &&
+        !isImport &&
+        !changes.length &&
+        JSON.stringify(parameters) === JSON.stringify(stack.stack.Parameters) &&
+        JSON.stringify(tags) === JSON.stringify(stack.stack.Tags);
+
+      const id = this.createArn("changeSet", input.ChangeSetName!);
+      const changeSet: FakeChangeSet = {
+        changeSet: {
+          ChangeSetId: id,
+          ChangeSetName: input.ChangeSetName,
+          Description: input.Description,
+          StackId: stack.stack.StackId,
+          StackName: stack.stack.StackName,
+          Status: "CREATE_IN_PROGRESS",
+          ExecutionStatus: "UNAVAILABLE",
+          CreationTime: new Date(this.clock.now()),
+          Parameters: parameters,
+          Tags: tags,
+          Capabilities: input.Capabilities,
+          NotificationARNs: input.NotificationARNs,
+          RollbackConfiguration: input.RollbackConfiguration,
+        },
+        changes,
+        type: input.ChangeSetType ?? "UPDATE",
+        roleArn: input.RoleARN,
+        templateBody,
+        parameters,
+        tags,
+      };
+      this.changeSets.push(changeSet);
+      stack.timeline.push({
+        time: this.clock.now() + 1000,
+        apply: () => {
+          if (unrecognizedTypes.length) {
+            changeSet.changeSet.Status = "FAILED";
+            changeSet.changeSet.StatusReason = `Template format error: Unrecognized resource types: [${unrecognizedTypes.join(
+              ",",
+            )}]`;
+          } else if (noChanges) {
+            changeSet.changeSet.Status = "FAILED";
+            changeSet.changeSet.StatusReason =
+              "The submitted information didn't contain changes. Submit different information to create a change set.";
+          } else {
+            changeSet.changeSet.Status = "CREATE_COMPLETE";
+            changeSet.changeSet.ExecutionStatus = "AVAILABLE";
+          }
+        },
+      });
+      return { Id: id, StackId: stack.stack.StackId };
+    },
+
+    DescribeChangeSet(
+      this: FakeCloudFormationClient,
+      {
+        ChangeSetName,
+        StackName,
+        NextToken,
+      }: CloudFormation.DescribeChangeSetInput,
+    ): CloudFormation.DescribeChangeSetOutput {
+      const { changeSet, changes } = this.getChangeSet(
+        ChangeSetName!,
+        StackName,
+      );
+      const start = NextToken ? Number(NextToken) : 0;
+      const end = start + this.changeSetPageSize;
+      return {
+        ...changeSet,
+        Changes: changes.slice(start, end),
+        NextToken: end < changes.length ? String(end) : undefined,
+      };
+    },
+
+    ListChangeSets(
+      this: FakeCloudFormationClient,
+      { StackName }: CloudFormation.ListChangeSetsInput,
+    ): CloudFormation.ListChangeSetsOutput {
+      const stack = this.getExistingStack(StackName!);
+      return {
+        Summaries: this.changeSets
+          .filter(({ changeSet }) => changeSet.StackId === stack.stack.StackId)
+          .map(
+            ({ changeSet }): CloudFormation.ChangeSetSummary => ({
+              StackId: changeSet.StackId,
+              StackName: changeSet.StackName,
+              ChangeSetId: changeSet.ChangeSetId,
+              ChangeSetName: changeSet.ChangeSetName,
+              ExecutionStatus: changeSet.ExecutionStatus,
+              Status: changeSet.Status,
+              StatusReason: changeSet.StatusReason,
+              CreationTime: changeSet.CreationTime,
+              Description: changeSet.Description,
+            }),
+          ),
+      };
+    },
+
+    DeleteChangeSet(
+      this: FakeCloudFormationClient,
+      { ChangeSetName, StackName }: CloudFormation.DeleteChangeSetInput,
+    ): CloudFormation.DeleteChangeSetOutput {
+      const changeSet = this.getChangeSet(ChangeSetName!, StackName);
+      this.changeSets.splice(this.changeSets.indexOf(changeSet), 1);
+      return {};
+    },
+
+    ExecuteChangeSet(
+      this: FakeCloudFormationClient,
+      {
+        ChangeSetName,
+        StackName,
+        DisableRollback,
+      }: CloudFormation.ExecuteChangeSetInput,
+    ): CloudFormation.ExecuteChangeSetOutput {
+      const changeSet = this.getChangeSet(ChangeSetName!, StackName);
+      if (changeSet.changeSet.ExecutionStatus !== "AVAILABLE") {
+        throw createError(
+          "InvalidChangeSetStatusException",
+          `ChangeSet [${changeSet.changeSet.ChangeSetId}] cannot be executed in its current execution status of [${changeSet.changeSet.ExecutionStatus}]`,
+        );
+      }
+      const stack = this.getExistingStack(changeSet.changeSet.StackId!);
+      changeSet.changeSet.ExecutionStatus = "EXECUTE_IN_PROGRESS";
+      stack.stack.DisableRollback = DisableRollback ?? false;
+
+      const isNew = stack.stack.StackStatus === "REVIEW_IN_PROGRESS";
+      const kind =
+        changeSet.type === "IMPORT" ? "IMPORT" : isNew ? "CREATE" : "UPDATE";
+      const resourceChanges = changeSet.changes.map(
+        ({ ResourceChange }): ResourceChange => ({
+          logicalId: ResourceChange!.LogicalResourceId!,
+          type: ResourceChange!.ResourceType!,
+          action: ResourceChange!.Action as ResourceChange["action"],
+          physicalId: ResourceChange!.PhysicalResourceId,
+        }),
+      );
+      this.startOperation(stack, kind, resourceChanges, (time) => {
+        changeSet.changeSet.ExecutionStatus = "EXECUTE_COMPLETE";
+        stack.templateBody = changeSet.templateBody;
+        stack.stack.Parameters = changeSet.parameters;
+        stack.stack.Tags = changeSet.tags;
+        stack.stack.Capabilities = changeSet.changeSet.Capabilities;
+        stack.stack.RoleARN = changeSet.roleArn;
+        stack.stack.NotificationARNs = changeSet.changeSet.NotificationARNs;
+        stack.stack.RollbackConfiguration =
+          changeSet.changeSet.RollbackConfiguration;
+        stack.stack.Outputs = getOutputs(
+          parseTemplate(changeSet.templateBody),
+          changeSet.parameters,
+          stack.resources,
+        );
+        if (!isNew) {
+          stack.stack.LastUpdatedTime = new Date(time);
+        }
+      });
+      // Executing a change set makes the others for the stack obsolete.
+      for (const other of this.changeSets) {
+        if (
+          other !== changeSet &&
+          other.changeSet.StackId === stack.stack.StackId
+        ) {
+          other.changeSet.ExecutionStatus = "OBSOLETE";
+        }
+      }
+      return {};
+    },
+
+    DeleteStack(
+      this: FakeCloudFormationClient,
+      { StackName, RetainResources = [] }: CloudFormation.DeleteStackInput,
+    ): object {
+      const stack = this.findStack(StackName!);
+      if (!stack) {
+        return {};
+      }
+      if (stack.stack.EnableTerminationProtection) {
+        throw createError(
+          "ValidationError",
+          `Stack [${StackName}] cannot be deleted while TerminationProtection is enabled`,
+        );
+      }
+      const resourceChanges = stack.resources
+        .filter(
+          (resource) => !RetainResources.includes(resource.LogicalResourceId!),
+        )
+        .reverse()
+        .map(
+          (resource): ResourceChange => ({
+            logicalId: resource.LogicalResourceId!,
+            type: resource.ResourceType!,
+            action: "Remove",
+          }),
+        );
+      this.startOperation(stack, "DELETE", resourceChanges, () => {
+        stack.deleted = true;
+      });
+      return {};
+    },
+
+    CancelUpdateStack(
+      this: FakeCloudFormationClient,
+      { StackName }: CloudFormation.CancelUpdateStackInput,
+    ): object {
+      const stack = this.getExistingStack(StackName!);
+      if (stack.stack.StackStatus !== "UPDATE_IN_PROGRESS") {
+        throw createError(
+          "ValidationError",
+          `CancelUpdateStack cannot be called from current stack status`,
+        );
+      }
+      stack.timeline = [];
+      this.scheduleRollback(stack, "UPDATE", this.clock.now(), {
+        reason: "User Initiated",
+      });
+      return {};
+    },
+
+    RollbackStack(
+      this: FakeCloudFormationClient,
+      { StackName }: CloudFormation.RollbackStackInput,
+    ): CloudFormation.RollbackStackOutput {
+      const stack = this.getExistingStack(StackName!);
+      const status = stack.stack.StackStatus;
+      if (status !== "UPDATE_FAILED" && status !== "CREATE_FAILED") {
+        throw createError(
+          "ValidationError",
+          `Stack ${StackName} is in ${status} state and can not be rolled back`,
+        );
+      }
+      this.scheduleRollback(
+        stack,
+        status === "CREATE_FAILED" ? "CREATE" : "UPDATE",
+        this.clock.now(),
+        this.takeScript(stack),
+      );
+      return { StackId: stack.stack.StackId };
+    },
+
+    ContinueUpdateRollback(
+      this: FakeCloudFormationClient,
+      { StackName }: CloudFormation.ContinueUpdateRollbackInput,
+    ): CloudFormation.ContinueUpdateRollbackOutput {
+      const stack = this.getExistingStack(StackName!);
+      if (stack.stack.StackStatus !== "UPDATE_ROLLBACK_FAILED") {
+        throw createError(
+          "ValidationError",
+          `Stack ${StackName} is not in UPDATE_ROLLBACK_FAILED state`,
+        );
+      }
+      this.scheduleRollback(
+        stack,
+        "UPDATE",
+        this.clock.now(),
+        this.takeScript(stack),
+      );
+      return {};
+    },
+
+    SetStackPolicy(
+      this: FakeCloudFormationClient,
+      { StackName, StackPolicyBody }: CloudFormation.SetStackPolicyInput,
+    ): object {
+      this.getExistingStack(StackName!).stackPolicyBody = StackPolicyBody;
+      return {};
+    },
+
+    UpdateTerminationProtection(
+      this: FakeCloudFormationClient,
+      {
+        StackName,
+        EnableTerminationProtection,
+      }: CloudFormation.UpdateTerminationProtectionInput,
+    ): CloudFormation.UpdateTerminationProtectionOutput {
+      const stack = this.getExistingStack(StackName!);
+      stack.stack.EnableTerminationProtection = EnableTerminationProtection;
+      return { StackId: stack.stack.StackId };
+    },
+
+    DetectStackDrift(
+      this: FakeCloudFormationClient,
+      { StackName }: CloudFormation.DetectStackDriftInput,
+    ): CloudFormation.DetectStackDriftOutput {
+      return {
+        StackDriftDetectionId: this.getExistingStack(StackName!).stack.StackId,
+      };
+    },
+
+    DescribeStackDriftDetectionStatus(
+      this: FakeCloudFormationClient,
+      {
+        StackDriftDetectionId,
+      }: CloudFormation.DescribeStackDriftDetectionStatusInput,
+    ): CloudFormation.DescribeStackDriftDetectionStatusOutput {
+      const stack = this.getExistingStack(StackDriftDetectionId!);
+      if (stack.driftDetectionFailure !== undefined) {
+        return {
+          StackId: stack.stack.StackId,
+          StackDriftDetectionId,
+          DetectionStatus: "DETECTION_FAILED",
+          DetectionStatusReason: stack.driftDetectionFailure,
+          Timestamp: new Date(this.clock.now()),
+        };
+      }
+      return {
+        StackId: stack.stack.StackId,
+        StackDriftDetectionId,
+        DetectionStatus: "DETECTION_COMPLETE",
+        StackDriftStatus: stack.drifts.length ? "DRIFTED" : "IN_SYNC",
+        DriftedStackResourceCount: stack.drifts.length,
+        Timestamp: new Date(this.clock.now()),
+      };
+    },
+
+    DescribeStackResourceDrifts(
+      this: FakeCloudFormationClient,
+      { StackName }: CloudFormation.DescribeStackResourceDriftsInput,
+    ): CloudFormation.DescribeStackResourceDriftsOutput {
+      return { StackResourceDrifts: this.getExistingStack(StackName!).drifts };
+    },
+  };
+
+  // Applies the scheduled changes up to the current time.
+  private update() {
+    const now = this.clock.now();
+    for (const stack of this.stacks) {
+      while (stack.timeline.length && stack.timeline[0].time <= now) {
+        const { time, apply } = stack.timeline.shift()!;
+        apply(time);
+      }
+    }
+  }
+
+  // Stacks are found by name only until they are deleted, as with the real
+  // API, but always by ID.
+  private findStack(stackName: string) {
+    return this.stacks
+      .slice()
+      .reverse()
+      .find(
+        ({ stack, deleted }) =>
+          stack.StackId === stackName ||
+          (stack.StackName === stackName && !deleted),
+      );
+  }
+
+  private getExistingStack(stackName: string) {
+    const stack = this.findStack(stackName);
+    if (!stack) {
+      throw createError(
+        "ValidationError",
+        `Stack with id ${stackName} does not exist`,
+      );
+    }
+    return stack;
+  }
+
+  private getChangeSet(changeSetName: string, stackName?: string) {
+    const changeSet = this.changeSets.find(
+      ({ changeSet }) =>
+        changeSet.ChangeSetId === changeSetName ||
+        (changeSet.ChangeSetName === changeSetName &&
+          (changeSet.StackName === stackName ||
+            changeSet.StackId === stackName)),
+    );
+    if (!changeSet) {
+      throw createError(
+        "ChangeSetNotFoundException",
+        `ChangeSet [${changeSetName}] does not exist`,
+      );
+    }
+    return changeSet;
+  }
+
+  private getTemplateBody({
+    TemplateBody,
+    TemplateURL,
+  }: {
+    TemplateBody?: string;
+    TemplateURL?: string;
+  }) {
+    if (TemplateBody !== undefined) {
+      return TemplateBody;
+    }
+    const body = TemplateURL && this.templateUrls.get(TemplateURL);
+    if (!body) {
+      throw createError(
+        "ValidationError",
+        `TemplateURL must be a supported URL: ${TemplateURL}`,
+      );
+    }
+    return body;
+  }
+
+  private parseTemplateInput(input: {
+    TemplateBody?: string;
+    TemplateURL?: string;
+  }) {
+    return parseTemplateBody(this.getTemplateBody(input));
+  }
+
+  private resolveParameters(
+    stack: FakeStack,
+    template: Template,
+    parameters: CloudFormation.Parameter[],
+  ): CloudFormation.Parameter[] {
+    return Object.entries(template.Parameters ?? {}).map(
+      ([key, declaration]) => {
+        const parameter = parameters.find(
+          (parameter) => parameter.ParameterKey === key,
+        );
+        let value = parameter?.ParameterValue;
+        if (parameter?.UsePreviousValue) {
+          value = stack.stack.Parameters?.find(
+            (previous) => previous.ParameterKey === key,
+          )?.ParameterValue;
+        }
+        value ??=
+          declaration.Default !== undefined
+            ? String(declaration.Default)
+            : undefined;
+        if (value === undefined) {
+          throw createError(
+            "ValidationError",
+            `Parameters: [${key}] must have values`,
+          );
+        }
+        return { ParameterKey: key, ParameterValue: value };
+      },
+    );
+  }
+
+  private takeScript(stack: FakeStack): FakeOperationScript {
+    const script = this.scripts.get(stack.stack.StackName!) ?? {};
+    this.scripts.delete(stack.stack.StackName!);
+    return script;
+  }
+
+  // Schedules the resource changes of an operation, then either the success
+  // of the operation, or if a resource fails, the rollback.
+  private startOperation(
+    stack: FakeStack,
+    kind: OperationKind,
+    resourceChanges: ResourceChange[],
+    succeeded: (time: number) => void,
+  ) {
+    const script = this.takeScript(stack);
+    const { resourceDuration = 1000 } = script;
+    let time = this.clock.now();
+    this.schedule(stack, time, (time) =>
+      this.setStatus(stack, time, `${kind}_IN_PROGRESS`, "User Initiated"),
+    );
+
+    for (const { logicalId, type, action, physicalId } of resourceChanges) {
+      const operation = getResourceOperation(action);
+      this.schedule(stack, time, (time) =>
+        this.setResourceStatus(
+          stack,
+          time,
+          logicalId,
+          type,
+          `${operation}_IN_PROGRESS`,
+          undefined,
+          physicalId,
+        ),
+      );
+      time += resourceDuration;
+
+      if (logicalId === script.failResource) {
+        const reason = script.reason ?? "Resource failed";
+        this.schedule(stack, time, (time) =>
+          this.setResourceStatus(
+            stack,
+            time,
+            logicalId,
+            type,
+            `${operation}_FAILED`,
+            reason,
+          ),
+        );
+        for (const cancelled of resourceChanges) {
+          if (!script.cancelResources?.includes(cancelled.logicalId)) {
+            continue;
+          }
+          const cancelledOperation = getResourceOperation(cancelled.action);
+          const cancelledReason = `Resource ${
+            {
+              CREATE: "creation",
+              UPDATE: "update",
+              IMPORT: "import",
+              DELETE: "deletion",
+            }[cancelledOperation]
+          } cancelled`;
+          this.schedule(stack, time, (time) => {
+            this.setResourceStatus(
+              stack,
+              time,
+              cancelled.logicalId,
+              cancelled.type,
+              `${cancelledOperation}_IN_PROGRESS`,
+              undefined,
+              cancelled.physicalId,
+            );
+            this.setResourceStatus(
+              stack,
+              time,
+              cancelled.logicalId,
+              cancelled.type,
+              `${cancelledOperation}_FAILED`,
+              cancelledReason,
+            );
+          });
+        }
+        if (kind === "DELETE" || stack.stack.DisableRollback) {
+          this.schedule(stack, time, (time) =>
+            this.setStatus(stack, time, `${kind}_FAILED`, reason),
+          );
+        } else {
+          this.scheduleRollback(
+            stack,
+            kind,
+            time,
+            script,
+            resourceChanges
+              .filter((change) => change.action === "Import")
+              .map((change) => change.logicalId),
+          );
+        }
+        return;
+      }
+
+      this.schedule(stack, time, (time) => {
+        if (action === "Remove") {
+          this.addEvent(
+            stack,
+            time,
+            this.createResource(stack, logicalId, type, "DELETE_COMPLETE"),
+          );
+          stack.resources = stack.resources.filter(
+            (resource) => resource.LogicalResourceId !== logicalId,
+          );
+        } else {
+          this.setResourceStatus(
+            stack,
+            time,
+            logicalId,
+            type,
+            `${operation}_COMPLETE`,
+          );
+        }
+      });
+    }
+
+    if (script.rollbackReason !== undefined && kind !== "DELETE") {
+      this.scheduleRollback(stack, kind, time, {
+        ...script,
+        reason: script.rollbackReason,
+      });
+      return;
+    }
+    this.schedule(stack, time, (time) => {
+      succeeded(time);
+      this.setStatus(stack, time, `${kind}_COMPLETE`);
+    });
+  }
+
+  private scheduleRollback(
+    stack: FakeStack,
+    kind: Exclude<OperationKind, "DELETE">,
+    time: number,
+    { reason, rollbackFails, resourceDuration = 1000 }: FakeOperationScript,
+    // Left out of the stack by the rollback, though they still exist.
+    imported: string[] = [],
+  ) {
+    const prefix = kind === "CREATE" ? "ROLLBACK" : `${kind}_ROLLBACK`;
+    this.schedule(stack, time, (time) =>
+      this.setStatus(stack, time, `${prefix}_IN_PROGRESS`, reason),
+    );
+    this.schedule(stack, time + resourceDuration, (time) => {
+      if (rollbackFails) {
+        this.setStatus(stack, time, `${prefix}_FAILED`, reason);
+        return;
+      }
+      if (kind === "CREATE") {
+        stack.resources = [];
+      }
+      stack.resources = stack.resources.filter(
+        (resource) => !imported.includes(resource.LogicalResourceId!),
+      );
+      this.setStatus(stack, time, `${prefix}_COMPLETE`);
+    });
+  }
+
+  private schedule(
+    stack: FakeStack,
+    time: number,
+    apply: (time: number) => void,
+  ) {
+    stack.timeline.push({ time, apply });
+  }
+
+  private setStatus(
+    stack: FakeStack,
+    time: number,
+    status: string,
+    reason?: string,
+  ) {
+    stack.stack.StackStatus = status;
+    stack.stack.StackStatusReason = reason;
+    this.addEvent(stack, time, null, status, reason);
+  }
+
+  private setResourceStatus(
+    stack: FakeStack,
+    time: number,
+    logicalId: string,
+    type: string,
+    status: string,
+    reason?: string,
+    physicalId?: string,
+  ) {
+    let resource = stack.resources.find(
+      (resource) => resource.LogicalResourceId === logicalId,
+    );
+    if (!resource) {
+      resource = this.createResource(stack, logicalId, type, status);
+      if (physicalId !== undefined) {
+        resource.PhysicalResourceId = physicalId;
+      }
+      stack.resources.push(resource);
+    }
+    resource.ResourceType = type;
+    resource.ResourceStatus = status;
+    resource.ResourceStatusReason = reason;
+    resource.Timestamp = new Date(time);
+    this.addEvent(stack, time, resource);
+  }
+
+  private createResource(
+    stack: FakeStack,
+    logicalId: string,
+    type: string,
+    status: string,
+  ): CloudFormation.StackResource {
+    return {
+      StackId: stack.stack.StackId,
+      StackName: stack.stack.StackName,
+      LogicalResourceId: logicalId,
+      PhysicalResourceId: `${stack.stack.StackName}-${logicalId}`,
+      ResourceType: type,
+      ResourceStatus: status,
+      Timestamp: new Date(this.clock.now()),
+    };
+  }
+
+  // Adds an event for the resource, or the stack itself if null.
+  private addEvent(
+    stack: FakeStack,
+    time: number,
+    resource: CloudFormation.StackResource | null,
+    status?: string,
+    reason?: string,
+  ) {
+    stack.events.unshift({
+      StackId: stack.stack.StackId,
+      StackName: stack.stack.StackName,
+      EventId: String(this.nextId++),
+      LogicalResourceId: resource?.LogicalResourceId ?? stack.stack.StackName,
+      PhysicalResourceId: resource?.PhysicalResourceId ?? stack.stack.StackId,
+      ResourceType: resource?.ResourceType ?? "AWS::CloudFormation::Stack",
+      ResourceStatus: resource?.ResourceStatus ?? status,
+      ResourceStatusReason: resource?.ResourceStatusReason ?? reason,
+      Timestamp: new Date(time),
+    });
+  }
+
+  private createArn(type: "stack" | "changeSet", name: string) {
+    return `arn:aws:cloudformation:${
+      this.region
+    }:123456789012:${type}/${name}/${this.nextId++}`;
+  }
+}
+
+function parseTemplateBody(templateBody: string) {
+  try {
+    return parseTemplate(templateBody);
+  } catch (e) {
+    throw createError(
+      "ValidationError",
+      `Template format error: ${(e as Error).message}`,
+    );
+  }
+}
+
+function diffResources(before: Template, after: Template): ResourceChange[] {
+  const beforeResources = before.Resources ?? {};
+  const afterResources = after.Resources ?? {};
+  const changes: ResourceChange[] = [];
+  for (const [logicalId, resource] of Object.entries(afterResources)) {
+    const previous = beforeResources[logicalId];
+    if (!previous) {
+      changes.push({ logicalId, type: resource.Type, action: "Add" });
+    } else if (JSON.stringify(previous) !== JSON.stringify(resource)) {
+      changes.push({ logicalId, type: resource.Type, action: "Modify" });
+    }
+  }
+  for (const [logicalId, resource] of Object.entries(beforeResources)) {
+    if (!afterResources[logicalId]) {
+      changes.push({ logicalId, type: resource.Type, action: "Remove" });
+    }
+  }
+  return changes;
+}
+
+// Replaces the changes of the template with the resources to import, which
+// must be the only changes, as for the real API.
+function getImportChanges(
+  template: Template,
+  changes: ResourceChange[],
+  resourcesToImport: CloudFormation.ResourceToImport[],
+): ResourceChange[] {
+  if (!resourcesToImport.length) {
+    throw createError(
+      "ValidationError",
+      "ResourcesToImport is required for IMPORT change sets",
+    );
+  }
+  const importIds = resourcesToImport.map(
+    (resource) => resource.LogicalResourceId!,
+  );
+  const otherIds = changes
+    .map((change) => change.logicalId)
+    .filter((logicalId) => !importIds.includes(logicalId));
+  if (otherIds.length) {
+    throw createError(
+      "ValidationError",
+      `You have modified resources [${otherIds.join(
+        ", ",
+      )}] in your template that are not being imported. Update, create or delete operations cannot be executed during import operations.`,
+    );
+  }
+  return resourcesToImport.map(
+    ({ LogicalResourceId, ResourceType, ResourceIdentifier }) => {
+      const resource = template.Resources?.[LogicalResourceId!];
+      if (!resource || resource.Type !== ResourceType) {
+        throw createError(
+          "ValidationError",
+          `Resource ${LogicalResourceId} of type ${ResourceType} is not in the template`,
+        );
+      }
+      if (!resource.DeletionPolicy) {
+        throw createError(
+          "ValidationError",
+          `Resource ${LogicalResourceId} must have a DeletionPolicy attribute to be imported`,
+        );
+      }
+      return {
+        logicalId: LogicalResourceId!,
+        type: ResourceType!,
+        action: "Import",
+        physicalId: Object.values(ResourceIdentifier ?? {})[0],
+      };
+    },
+  );
+}
+
+function getResourceOperation(action: ResourceChange["action"]) {
+  return action === "Add"
+    ? "CREATE"
+    : action === "Modify"
+    ? "UPDATE"
+    : action === "Import"
+    ? "IMPORT"
+    : "DELETE";
+}
+
+function getRequiredCapabilities(
+  template: Template,
+): CloudFormation.Capability[] {
+  const capabilities: CloudFormation.Capability[] = [];
+  if (
+    Object.values(template.Resources ?? {}).some((resource) =>
+      resource.Type.startsWith("AWS::IAM::"),
+    )
+  ) {
+    capabilities.push(CloudFormation.Capability.CAPABILITY_IAM);
+  }
+  if (template.Transform !== undefined) {
+    capabilities.push(CloudFormation.Capability.CAPABILITY_AUTO_EXPAND);
+  }
+  return capabilities;
+}
+
+// Types are allowed if they match a pattern, where "*" matches anything.
+function getDisallowedResourceTypes(
+  template: Template,
+  resourceTypes: string[] | undefined,
+) {
+  if (!resourceTypes) {
+    return [];
+  }
+  const patterns = resourceTypes.map(
+    (type) =>
+      new RegExp(
+        `^${type
+          .split("*")
+          .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+          .join(".*")}$`,
+      ),
+  );
+  return Object.values(template.Resources ?? {})
+    .map((resource) => resource.Type)
+    .filter((type) => !patterns.some((pattern) => pattern.test(type)));
+}
+
+// Output values can be strings, or a Ref to a parameter or resource. Other
+// intrinsic functions are not evaluated.
+function getOutputs(
+  template: Template,
+  parameters: CloudFormation.Parameter[],
+  resources: CloudFormation.StackResource[],
+): CloudFormation.Output[] {
+  return Object.entries(template.Outputs ?? {}).map(([key, output]) => {
+    const value = (output as { Value?: unknown }).Value;
+    let outputValue = `FAKE-${key}`;
+    if (typeof value === "string") {
+      outputValue = value;
+    } else if (isRef(value)) {
+      outputValue =
+        parameters.find((parameter) => parameter.ParameterKey === value.Ref)
+          ?.ParameterValue ??
+        resources.find((resource) => resource.LogicalResourceId === value.Ref)
+          ?.PhysicalResourceId ??
+        outputValue;
+    }
+    return { OutputKey: key, OutputValue: outputValue };
+  });
+}
+
+function isRef(value: unknown): value is { Ref: string } {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as { Ref?: unknown }).Ref === "string"
+  );
+}
+
+function maskNoEchoParameters(
+  templateBody: string,
+  parameters: CloudFormation.Parameter[] = [],
+) {
+  const declarations = parseTemplate(templateBody).Parameters ?? {};
+  return parameters.map((parameter) =>
+    String(declarations[parameter.ParameterKey!]?.NoEcho) === "true"
+      ? { ...parameter, ParameterValue: "****" }
+      : parameter,
+  );
+}
+
+function createError(name: string, message: string) {
+  const error = new Error(message);
+  error.name = name;
+  return error;
+}
+
+// Responses are copied, so they don't change as the fake state does.
+function clone<T>(value: T): T {
+  if (value instanceof Date) {
+    return new Date(value) as unknown as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(clone) as unknown as T;
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, clone(item)]),
+    ) as T;
+  }
+  return value;
+}
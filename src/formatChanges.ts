@@ -0,0 +1,98 @@
+import * as CloudFormation from "@aws-sdk/client-cloudformation";
+
+export type ChangeFormatter = (changes: CloudFormation.Change[]) => string;
+
+export interface FormatChangesOptions {
+  // Highlight replacements and removals with ANSI colors.
+  color?: boolean;
+}
+
+const actionOrder: string[] = ["Add", "Modify", "Remove", "Import", "Dynamic"];
+
+const actionMarkers: Record<string, string> = {
+  Add: "+",
+  Modify: "~",
+  Remove: "-",
+  Import: "<",
+  Dynamic: "?",
+};
+
+const red = "\x1b[31m";
+const yellow = "\x1b[33m";
+const reset = "\x1b[0m";
+
+// Renders one line per changed resource, grouped by action, e.g.:
+//   + Add     Queue     AWS::SQS::Queue
+//   ~ Modify  Function  AWS::Lambda::Function  Replacement: False  Code, Role
+//   - Remove  Table     AWS::DynamoDB::Table
+//   < Import  Bucket    AWS::S3::Bucket        my-bucket
+export default function formatChanges(
+  changes: CloudFormation.Change[],
+  { color = false }: FormatChangesOptions = {},
+): string {
+  const resourceChanges = changes
+    .flatMap((change) => (change.ResourceChange ? [change.ResourceChange] : []))
+    .sort(
+      (a, b) =>
+        actionIndex(a.Action) - actionIndex(b.Action) ||
+        (a.LogicalResourceId ?? "").localeCompare(b.LogicalResourceId ?? ""),
+    );
+  if (!resourceChanges.length) {
+    return "  (no resource changes)";
+  }
+
+  const rows = resourceChanges.map((change) => [
+    `${actionMarkers[change.Action!] ?? " "} ${change.Action}`,
+    change.LogicalResourceId ?? "",
+    change.ResourceType ?? "",
+    change.Action === "Modify"
+      ? `Replacement: ${change.Replacement}`
+      : change.Action === "Import"
+      ? change.PhysicalResourceId ?? ""
+      : "",
+    changedNames(change).join(", "),
+  ]);
+  const widths = rows[0].map((_, column) =>
+    Math.max(...rows.map((row) => row[column].length)),
+  );
+
+  return resourceChanges
+    .map((change, index) => {
+      const line = `  ${rows[index]
+        .map((cell, column) => cell.padEnd(widths[column]))
+        .join("  ")
+        .trimEnd()}`;
+      const highlight = color ? highlightFor(change) : undefined;
+      return highlight ? `${highlight}${line}${reset}` : line;
+    })
+    .join("\n");
+}
+
+function actionIndex(action: string | undefined) {
+  const index = actionOrder.indexOf(action!);
+  return index === -1 ? actionOrder.length : index;
+}
+
+function highlightFor(change: CloudFormation.ResourceChange) {
+  if (change.Action === "Remove" || change.Replacement === "True") {
+    return red;
+  }
+  if (change.Replacement === "Conditional") {
+    return yellow;
+  }
+  return undefined;
+}
+
+// Property names for property changes, otherwise the changed attribute, e.g.
+// "Tags" or "DeletionPolicy".
+function changedNames(change: CloudFormation.ResourceChange) {
+  const names = new Set<string>();
+  for (const detail of change.Details ?? []) {
+    const target = detail.Target;
+    if (!target) continue;
+    const name =
+      target.Attribute === "Properties" ? target.Name : target.Attribute;
+    if (name) names.add(name);
+  }
+  return Array.from(names);
+}
@@ -0,0 +1,94 @@
+import * as childProcess from "node:child_process";
+import * as path from "node:path";
+
+import * as CloudFormation from "@aws-sdk/client-cloudformation";
+
+import { DeployHookContext, DeployHooks, DeployHookStage } from "./deployStack";
+
+export const deployHookStages: readonly DeployHookStage[] = [
+  "beforeChangeSet",
+  "changeSetReady",
+  "beforeExecute",
+  "afterExecute",
+  "onFailure",
+  "onNoChanges",
+];
+
+// The JSON passed to hook commands on stdin, or to hook scripts.
+export interface HookCommandInput {
+  stage: DeployHookStage;
+  stackName: string;
+  changeSetId?: string;
+  changeSetType?: string;
+  changes?: CloudFormation.Change[];
+  stack?: CloudFormation.Stack;
+  error?: { name: string; message: string };
+}
+
+// Creates hooks that run the commands for each stage in order, for the CLI
+// --hook option. Paths to .js or .cjs files are loaded as modules exporting a
+// function taking HookCommandInput, that can return false to veto. Anything
+// else is run as a shell command with the input JSON on stdin, where a
+// non-zero exit code vetoes.
+export default function createHookCommands(
+  commands: Partial<Record<DeployHookStage, string[]>>,
+): DeployHooks {
+  return {
+    beforeChangeSet: (context) => run("beforeChangeSet", context),
+    changeSetReady: (changes, context) =>
+      run("changeSetReady", context, { changes }),
+    beforeExecute: (context) => run("beforeExecute", context),
+    afterExecute: (stack, context) => run("afterExecute", context, { stack }),
+    onFailure: async (error, context) => {
+      const { name, message } =
+        error instanceof Error ? error : new Error(String(error));
+      await run("onFailure", context, { error: { name, message } });
+    },
+    onNoChanges: (context) => run("onNoChanges", context),
+  };
+
+  async function run(
+    stage: DeployHookStage,
+    { logger, stackName, plan }: DeployHookContext,
+    extra: Partial<HookCommandInput> = {},
+  ) {
+    const input: HookCommandInput = {
+      stage,
+      stackName,
+      changeSetId: plan?.changeSetId,
+      changeSetType: plan?.changeSetType,
+      ...extra,
+    };
+    for (const command of commands[stage] ?? []) {
+      logger.log("Running %s hook: %s", stage, command);
+      if (/\.c?js$/.test(command)) {
+        const module = require(path.resolve(command));
+        const hook = module.default ?? module;
+        if ((await hook(input)) === false) {
+          return false;
+        }
+      } else {
+        const code = await runShellCommand(command, JSON.stringify(input));
+        if (code !== 0) {
+          logger.log("%s hook exited with code %d: %s", stage, code, command);
+          return false;
+        }
+      }
+    }
+    return true;
+  }
+}
+
+function runShellCommand(command: string, stdin: string) {
+  return new Promise<number | null>((resolve, reject) => {
+    const child = childProcess.spawn(command, {
+      shell: true,
+      stdio: ["pipe", "inherit", "inherit"],
+    });
+    child.on("error", reject);
+    child.on("close", resolve);
+    // The command may exit without reading stdin.
+    child.stdin.on("error", () => {});
+    child.stdin.end(stdin);
+  });
+}
@@ -0,0 +1,132 @@
+import * as CloudFormation from "@aws-sdk/client-cloudformation";
+
+import parseTemplate, { Template } from "./parseTemplate";
+import { describeStack } from "./stackPolling";
+
+export interface GenerateImportResourcesOptions {
+  client: CloudFormation.CloudFormationClient;
+  templateBody: string;
+  // Only import the resources with one of these physical IDs, e.g. bucket
+  // names. Default: all resources with literal identifiers.
+  physicalIds?: string[];
+  // Skip the resources already in this stack, if it exists.
+  stackName?: string;
+}
+
+export interface GeneratedImportResources {
+  resources: CloudFormation.ResourceToImport[];
+  // The physicalIds that no resource matched.
+  unmatched: string[];
+}
+
+// Generates the resources to import for the template, as for the
+// importResources option, by reading the identifier properties of each
+// resource type with GetTemplateSummary, e.g. BucketName for an S3 bucket, and
+// taking their values from the template. Only literal values are used, so a
+// resource named with e.g. !Sub is not matched.
+export default async function generateImportResources({
+  client,
+  templateBody,
+  physicalIds,
+  stackName,
+}: GenerateImportResourcesOptions): Promise<GeneratedImportResources> {
+  const template = parseTemplate(templateBody);
+  const summary = await client.send(
+    new CloudFormation.GetTemplateSummaryCommand({
+      TemplateBody: templateBody,
+    }),
+  );
+  const existing = new Set<string>();
+  if (stackName !== undefined && (await describeStack(client, stackName))) {
+    const { StackResources = [] } = await client.send(
+      new CloudFormation.DescribeStackResourcesCommand({
+        StackName: stackName,
+      }),
+    );
+    for (const resource of StackResources) {
+      existing.add(resource.LogicalResourceId!);
+    }
+  }
+
+  const identifierNames = new Map<string, string[]>();
+  for (const identifierSummary of summary.ResourceIdentifierSummaries ?? []) {
+    for (const logicalId of identifierSummary.LogicalResourceIds ?? []) {
+      identifierNames.set(logicalId, identifierSummary.ResourceIdentifiers!);
+    }
+  }
+
+  const matched = new Set<string>();
+  const resources: CloudFormation.ResourceToImport[] = [];
+  for (const [logicalId, resource] of Object.entries(
+    template.Resources ?? {},
+  )) {
+    const names = identifierNames.get(logicalId);
+    if (!names || existing.has(logicalId)) {
+      continue;
+    }
+    const identifier: Record<string, string> = {};
+    for (const name of names) {
+      const value = resource.Properties?.[name];
+      if (typeof value === "string") {
+        identifier[name] = value;
+      }
+    }
+    if (Object.keys(identifier).length !== names.length) {
+      continue;
+    }
+    const values = Object.values(identifier);
+    if (physicalIds) {
+      const value = values.find((value) => physicalIds.includes(value));
+      if (value === undefined) {
+        continue;
+      }
+      matched.add(value);
+    }
+    resources.push({
+      ResourceType: resource.Type,
+      LogicalResourceId: logicalId,
+      ResourceIdentifier: identifier,
+    });
+  }
+
+  return {
+    resources,
+    unmatched: (physicalIds ?? []).filter((id) => !matched.has(id)),
+  };
+}
+
+// Checks the resources to import against the template, returning the
+// problems found. CloudFormation requires each to be declared with a
+// DeletionPolicy, and it must be Retain here, so a failed import or a later
+// delete leaves the resource as it was before it was imported.
+export function checkImportResources(
+  template: Template,
+  importResources: CloudFormation.ResourceToImport[],
+): string[] {
+  const problems: string[] = [];
+  const seen = new Set<string>();
+  for (const { LogicalResourceId, ResourceType } of importResources) {
+    const logicalId = LogicalResourceId!;
+    if (seen.has(logicalId)) {
+      problems.push(`Resource ${logicalId} is imported more than once`);
+      continue;
+    }
+    seen.add(logicalId);
+    const resource = template.Resources?.[logicalId];
+    if (!resource) {
+      problems.push(`Resource ${logicalId} is not in the template`);
+      continue;
+    }
+    if (resource.Type !== ResourceType) {
+      problems.push(
+        `Resource ${logicalId} has type ${resource.Type} in the template, not ${ResourceType}`,
+      );
+    }
+    if (resource.DeletionPolicy !== "Retain") {
+      problems.push(
+        `Resource ${logicalId} must have DeletionPolicy: Retain to be imported`,
+      );
+    }
+  }
+  return problems;
+}
@@ -2,3 +2,34 @@ export { default } from './deployStack';
 export { default as createTableWaiter }  from './createTableWaiter';
 export { default as createEventLogWaiter }  from './createEventLogWaiter';
 export * from './deployStack';
+export { default as uploadToBucket }  from './uploadToBucket';
+export * from './uploadToBucket';
+export { default as formatChanges }  from './formatChanges';
+export * from './formatChanges';
+export { default as parseTemplate }  from './parseTemplate';
+export * from './parseTemplate';
+export { default as diffTemplates }  from './diffTemplates';
+export * from './diffTemplates';
+export { default as detectStackDrift }  from './detectStackDrift';
+export * from './detectStackDrift';
+export * from './nestedStacks';
+export { default as deleteStack }  from './deleteStack';
+export * from './deleteStack';
+export { default as emptyBucket }  from './emptyBucket';
+export { default as packageTemplate }  from './packageTemplate';
+export * from './packageTemplate';
+export { default as zipDirectory }  from './zipDirectory';
+export { default as checkChangeSetPolicy }  from './changeSetPolicy';
+export * from './changeSetPolicy';
+export { default as deployStacks }  from './deployStacks';
+export * from './deployStacks';
+export { default as resolveParameterValues }  from './parameterResolvers';
+export * from './parameterResolvers';
+export * from './createTableWaiter';
+export * from './fakeCloudFormationClient';
+export { default as pruneChangeSets }  from './pruneChangeSets';
+export * from './pruneChangeSets';
+export { default as diagnoseStackFailures }  from './diagnoseStackFailures';
+export * from './diagnoseStackFailures';
+export { default as generateImportResources }  from './importResources';
+export * from './importResources';
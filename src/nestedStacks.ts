@@ -0,0 +1,50 @@
+import * as CloudFormation from "@aws-sdk/client-cloudformation";
+
+export interface StackResourceTreeItem {
+  // Logical IDs of the nested stack resources containing this resource, e.g.
+  // ["Network", "Subnets"]. Empty for resources of the top-level stack.
+  path: string[];
+  resource: CloudFormation.StackResource;
+}
+
+export function isNestedStack(
+  item: CloudFormation.StackResource | CloudFormation.StackEvent,
+): boolean {
+  return (
+    item.ResourceType === "AWS::CloudFormation::Stack" &&
+    !!item.PhysicalResourceId &&
+    // The event for the stack itself has this type too.
+    item.PhysicalResourceId !== item.StackId
+  );
+}
+
+// Describes the resources of a stack, followed by the resources of any nested
+// stack directly after the nested stack resource.
+export async function describeStackResourceTree(
+  client: CloudFormation.CloudFormationClient,
+  stackName: string,
+  path: string[] = [],
+): Promise<StackResourceTreeItem[]> {
+  const response = await client.send(
+    new CloudFormation.DescribeStackResourcesCommand({ StackName: stackName }),
+  );
+  const items = await Promise.all(
+    response.StackResources!.map(async (resource) => {
+      const item = { path, resource };
+      if (!isNestedStack(resource)) {
+        return [item];
+      }
+      const children = await describeStackResourceTree(
+        client,
+        resource.PhysicalResourceId!,
+        [...path, resource.LogicalResourceId!],
+      );
+      return [item, ...children];
+    }),
+  );
+  return items.flat();
+}
+
+export function formatNestedPath(path: string[], logicalId = "") {
+  return [...path, logicalId].join("/");
+}
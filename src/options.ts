@@ -3,9 +3,11 @@ export const argsSymbol = Symbol("args");
 export interface Options {
   [argsSymbol]: string[];
 
-  [name: string]: string | true;
+  [name: string]: OptionValue | OptionValue[];
 }
 
+export type OptionValue = string | true;
+
 export class OptionError extends Error {}
 
 export function parseOptions(args = process.argv.slice(2)) {
@@ -13,12 +15,24 @@ export function parseOptions(args = process.argv.slice(2)) {
     [argsSymbol]: [],
   };
 
+  // Repeated options collect their values into an array.
+  function setOption(name: string, value: OptionValue) {
+    const existing = options[name];
+    if (typeof existing === "undefined") {
+      options[name] = value;
+    } else if (Array.isArray(existing)) {
+      existing.push(value);
+    } else {
+      options[name] = [existing, value];
+    }
+  }
+
   let optionName: string | undefined;
   while (args.length) {
     const arg = args.shift()!;
     if (arg.startsWith("--")) {
       if (optionName) {
-        options[optionName] = true;
+        setOption(optionName, true);
       }
       optionName = arg.slice(2);
       if (!optionName) {
@@ -27,7 +41,7 @@ export function parseOptions(args = process.argv.slice(2)) {
       }
     } else {
       if (optionName) {
-        options[optionName] = arg;
+        setOption(optionName, arg);
         optionName = undefined;
       } else {
         options[argsSymbol].push(arg);
@@ -36,7 +50,7 @@ export function parseOptions(args = process.argv.slice(2)) {
   }
 
   if (optionName) {
-    options[optionName] = true;
+    setOption(optionName, true);
   }
 
   return options;
@@ -58,20 +72,57 @@ export function getOption<T = never>(
   throw new OptionError(`--${name} is required`);
 }
 
+function getSingleOption<T = never>(
+  options: Options,
+  name: string,
+  defaultValue?: T,
+): OptionValue | T {
+  const value = getOption(options, name, defaultValue);
+  if (Array.isArray(value)) {
+    throw new OptionError(`--${name} can only be passed once`);
+  }
+  return value;
+}
+
 export function getStringOption<T = never>(
   options: Options,
   name: string,
   defaultValue?: T,
 ): string | T {
-  const value = getOption(options, name, defaultValue);
+  const value = getSingleOption(options, name, defaultValue);
   if (value === true) {
     throw new OptionError(`--${name} requires a value`);
   }
   return value;
 }
 
+export function getNumberOption<T = never>(
+  options: Options,
+  name: string,
+  defaultValue?: T,
+): number | T {
+  const value = getStringOption(options, name, defaultValue);
+  if (typeof value !== "string") {
+    return value;
+  }
+  const number = Number(value);
+  if (!value || !Number.isFinite(number) || number < 0) {
+    throw new OptionError(`--${name} must be a non-negative number`);
+  }
+  return number;
+}
+
+export function getStringListOption(options: Options, name: string): string[] {
+  const value = getOption(options, name, []);
+  const values = Array.isArray(value) ? value : [value];
+  if (values.includes(true)) {
+    throw new OptionError(`--${name} requires a value`);
+  }
+  return values as string[];
+}
+
 export function getFlagOption(options: Options, name: string): boolean {
-  const value = getOption(options, name, false);
+  const value = getSingleOption(options, name, false);
   if (typeof value === "string") {
     throw new OptionError(`--${name} does not have a value`);
   }
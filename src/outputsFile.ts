@@ -0,0 +1,97 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+import * as yaml from "js-yaml";
+
+export const outputsFormats = ["json", "env", "shell", "yaml"] as const;
+
+export type OutputsFormat = typeof outputsFormats[number];
+
+export const outputsKeyCases = ["preserve", "upper-snake"] as const;
+
+export type OutputsKeyCase = typeof outputsKeyCases[number];
+
+export interface OutputsFileOptions {
+  format: OutputsFormat;
+  // Prepended to each key, after converting the case.
+  prefix?: string;
+  keyCase?: OutputsKeyCase;
+}
+
+// Infers the format from the file extension, returning null if unknown.
+export function inferOutputsFormat(filePath: string): OutputsFormat | null {
+  const name = path.basename(filePath);
+  if (name === ".env" || name.startsWith(".env.")) {
+    return "env";
+  }
+  switch (path.extname(name)) {
+    case ".json":
+      return "json";
+    case ".env":
+      return "env";
+    case ".sh":
+    case ".bash":
+    case ".zsh":
+      return "shell";
+    case ".yaml":
+    case ".yml":
+      return "yaml";
+    default:
+      return null;
+  }
+}
+
+export function writeOutputsFile(
+  filePath: string,
+  outputs: Record<string, string>,
+  options: OutputsFileOptions,
+) {
+  fs.writeFileSync(filePath, formatOutputs(outputs, options));
+}
+
+export function formatOutputs(
+  outputs: Record<string, string>,
+  { format, prefix = "", keyCase = "preserve" }: OutputsFileOptions,
+): string {
+  const entries = Object.entries(outputs).map(
+    ([key, value]) => [prefix + convertKeyCase(key, keyCase), value] as const,
+  );
+
+  switch (format) {
+    case "json":
+      return JSON.stringify(Object.fromEntries(entries), null, 2) + "\n";
+    case "yaml":
+      return yaml.dump(Object.fromEntries(entries));
+    case "env":
+      return entries
+        .map(([key, value]) => `${key}=${quoteEnvValue(value)}\n`)
+        .join("");
+    case "shell":
+      return entries
+        .map(([key, value]) => `export ${key}=${quoteShellValue(value)}\n`)
+        .join("");
+  }
+}
+
+// e.g. "ApiUrl" => "API_URL", "CDNDomainName" => "CDN_DOMAIN_NAME"
+function convertKeyCase(key: string, keyCase: OutputsKeyCase) {
+  if (keyCase === "preserve") {
+    return key;
+  }
+  return key
+    .replace(/([a-z\d])([A-Z])/g, "$1_$2")
+    .replace(/([A-Z])([A-Z][a-z])/g, "$1_$2")
+    .replace(/\W+/g, "_")
+    .toUpperCase();
+}
+
+function quoteEnvValue(value: string) {
+  if (/^[\w.,:/@+-]*$/.test(value)) {
+    return value;
+  }
+  return JSON.stringify(value);
+}
+
+function quoteShellValue(value: string) {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
@@ -0,0 +1,113 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+import { Logger } from "./deployStack";
+import { ArtifactNotFoundError } from "./errors";
+import parseTemplate from "./parseTemplate";
+import uploadToBucket, {
+  BucketLocation,
+  UploadedObject,
+} from "./uploadToBucket";
+import zipDirectory from "./zipDirectory";
+
+export interface PackageTemplateOptions {
+  bucket: BucketLocation;
+  // Local paths in the template are relative to this directory.
+  directory: string;
+  logger?: Logger;
+}
+
+interface ArtifactProperty {
+  resourceType: string;
+  property: string;
+  // "zip" uploads a directory or file as a zip, "template" packages and
+  // uploads a nested template.
+  kind: "zip" | "template";
+  location: (object: UploadedObject) => unknown;
+}
+
+const artifactProperties: ArtifactProperty[] = [
+  {
+    resourceType: "AWS::Lambda::Function",
+    property: "Code",
+    kind: "zip",
+    location: ({ bucket, key }) => ({ S3Bucket: bucket, S3Key: key }),
+  },
+  {
+    resourceType: "AWS::Serverless::Function",
+    property: "CodeUri",
+    kind: "zip",
+    location: ({ bucket, key }) => `s3://${bucket}/${key}`,
+  },
+  {
+    resourceType: "AWS::CloudFormation::Stack",
+    property: "TemplateURL",
+    kind: "template",
+    location: ({ url }) => url,
+  },
+];
+
+// Uploads the local paths referenced by the template, like
+// `aws cloudformation package`, and returns the template with the properties
+// replaced by the S3 locations. Returns templateBody unchanged if there are no
+// local paths.
+export default async function packageTemplate(
+  templateBody: string,
+  { bucket, directory, logger = console }: PackageTemplateOptions,
+): Promise<string> {
+  const template = parseTemplate(templateBody);
+  let packaged = false;
+
+  for (const [logicalId, resource] of Object.entries(
+    template.Resources ?? {},
+  )) {
+    for (const artifact of artifactProperties) {
+      const value = resource.Properties?.[artifact.property];
+      if (resource.Type !== artifact.resourceType || !isLocalPath(value)) {
+        continue;
+      }
+      const artifactPath = path.resolve(directory, value);
+      if (!fs.existsSync(artifactPath)) {
+        throw new ArtifactNotFoundError(
+          `${logicalId}.${artifact.property}`,
+          artifactPath,
+        );
+      }
+      logger.log("Packaging %s.%s %O", logicalId, artifact.property, value);
+      const object = await uploadArtifact(artifact.kind, artifactPath);
+      resource.Properties![artifact.property] = artifact.location(object);
+      packaged = true;
+    }
+  }
+
+  return packaged ? JSON.stringify(template) : templateBody;
+
+  async function uploadArtifact(
+    kind: ArtifactProperty["kind"],
+    artifactPath: string,
+  ) {
+    if (kind === "template") {
+      const body = await packageTemplate(
+        fs.readFileSync(artifactPath, "utf-8"),
+        { bucket, directory: path.dirname(artifactPath), logger },
+      );
+      return uploadToBucket(bucket, body, ".template", logger);
+    }
+    return uploadToBucket(bucket, zipArtifact(artifactPath), ".zip", logger);
+  }
+}
+
+function isLocalPath(value: unknown): value is string {
+  return typeof value === "string" && !/^(s3|https?):\/\//.test(value);
+}
+
+// Already zipped files are uploaded as they are.
+function zipArtifact(artifactPath: string) {
+  if (
+    fs.statSync(artifactPath).isFile() &&
+    /\.(zip|jar)$/i.test(artifactPath)
+  ) {
+    return fs.readFileSync(artifactPath);
+  }
+  return zipDirectory(artifactPath);
+}
@@ -0,0 +1,168 @@
+import * as fs from "node:fs";
+
+import * as CloudFormation from "@aws-sdk/client-cloudformation";
+import * as SSM from "@aws-sdk/client-ssm";
+
+import { Logger } from "./deployStack";
+import { ParameterResolutionError } from "./errors";
+import { describeStack } from "./stackPolling";
+
+export interface ParameterResolverContext {
+  client: CloudFormation.CloudFormationClient;
+  parameterKey: string;
+}
+
+// Resolves the part of a parameter value after "scheme:".
+export type ParameterResolver = (
+  value: string,
+  context: ParameterResolverContext,
+) => string | PromiseLike<string>;
+
+// Resolvers by scheme, e.g. "env" resolves "env:DB_USER".
+export type ParameterResolvers = Record<string, ParameterResolver>;
+
+export const defaultParameterResolvers: ParameterResolvers = {
+  env(name) {
+    const value = process.env[name];
+    if (value === undefined) {
+      throw new Error(`environment variable ${name} is not set`);
+    }
+    return value;
+  },
+  file(path) {
+    return fs.readFileSync(path, "utf-8");
+  },
+  async stack(reference, { client }) {
+    const index = reference.lastIndexOf(".");
+    const stackName = reference.slice(0, index);
+    const outputKey = reference.slice(index + 1);
+    const stack = index > 0 ? await describeStack(client, stackName) : null;
+    const output = stack?.Outputs?.find(
+      (output) => output.OutputKey === outputKey,
+    );
+    if (!output) {
+      throw new Error(
+        `stack ${stackName} does not have the output ${outputKey}`,
+      );
+    }
+    return output.OutputValue!;
+  },
+  async ssm(name, { client }) {
+    // Uses the same region and credentials as the stack.
+    const ssm = new SSM.SSMClient({
+      region: client.config.region,
+      credentials: client.config.credentials,
+    });
+    const { Parameter } = await ssm.send(
+      new SSM.GetParameterCommand({ Name: name, WithDecryption: true }),
+    );
+    return Parameter!.Value!;
+  },
+  prompt(message, { parameterKey }) {
+    return readHiddenLine(`${message || parameterKey}: `);
+  },
+};
+
+// Wraps the resolvers for the schemes so each value is only resolved once per
+// parameter key, reusing the result for later calls, e.g. so deploying to
+// several targets only prompts once. Schemes that depend on the target, like
+// stack and ssm, should be left uncached.
+export function cacheParameterResolvers(
+  resolvers: ParameterResolvers,
+  schemes: string[],
+): ParameterResolvers {
+  const cached: ParameterResolvers = { ...resolvers };
+  for (const scheme of schemes) {
+    const resolver = resolvers[scheme];
+    const results = new Map<string, Promise<string>>();
+    cached[scheme] = (value, context) => {
+      const key = JSON.stringify([context.parameterKey, value]);
+      let result = results.get(key);
+      if (!result) {
+        result = Promise.resolve(resolver(value, context));
+        results.set(key, result);
+      }
+      return result;
+    };
+  }
+  return cached;
+}
+
+// Replaces values like "env:DB_USER" with the result of the resolver for the
+// scheme. Values with other schemes, or none, are left as they are.
+export default async function resolveParameterValues(
+  parameters: CloudFormation.Parameter[],
+  resolvers: ParameterResolvers,
+  client: CloudFormation.CloudFormationClient,
+  logger: Logger = console,
+): Promise<CloudFormation.Parameter[]> {
+  const resolved: CloudFormation.Parameter[] = [];
+  for (const parameter of parameters) {
+    const match = parameter.ParameterValue?.match(/^([\w-]+):(.*)$/s);
+    if (!match || !Object.prototype.hasOwnProperty.call(resolvers, match[1])) {
+      resolved.push(parameter);
+      continue;
+    }
+    const [, scheme, value] = match;
+    const parameterKey = parameter.ParameterKey!;
+    logger.log("Resolving parameter %s from %s:", parameterKey, scheme);
+    try {
+      resolved.push({
+        ...parameter,
+        ParameterValue: await resolvers[scheme](value, {
+          client,
+          parameterKey,
+        }),
+      });
+    } catch (e) {
+      throw new ParameterResolutionError(
+        parameterKey,
+        `${scheme}:${value}`,
+        (e as Error).message,
+      );
+    }
+  }
+  return resolved;
+}
+
+// Reads a line from the terminal without echoing it.
+async function readHiddenLine(
+  message: string,
+  stdin = process.stdin,
+  stdout = process.stdout,
+): Promise<string> {
+  if (!stdin.isTTY) {
+    throw new Error("prompting requires a terminal");
+  }
+  stdout.write(message);
+  const paused = stdin.isPaused();
+  stdin.setRawMode(true);
+  stdin.resume();
+  try {
+    let line = "";
+    while (true) {
+      const data = await new Promise<Buffer>((resolve) => {
+        stdin.once("data", resolve);
+      });
+      for (const char of data.toString()) {
+        switch (char) {
+          case "\r":
+          case "\n":
+            return line;
+          case "\x03":
+            throw new Error("cancelled");
+          case "\x7f":
+          case "\b":
+            line = line.slice(0, -1);
+            break;
+          default:
+            line += char;
+        }
+      }
+    }
+  } finally {
+    stdout.write("\n");
+    stdin.setRawMode(false);
+    if (paused) stdin.pause();
+  }
+}
@@ -0,0 +1,119 @@
+import * as CloudFormation from "@aws-sdk/client-cloudformation";
+import * as yaml from "js-yaml";
+
+export interface Template {
+  AWSTemplateFormatVersion?: string;
+  Parameters?: Record<string, TemplateParameter>;
+  Resources?: Record<string, TemplateResource>;
+  Outputs?: Record<string, unknown>;
+  [section: string]: unknown;
+}
+
+export interface TemplateParameter {
+  Type: string;
+  Default?: unknown;
+  AllowedValues?: unknown[];
+  AllowedPattern?: string;
+  NoEcho?: boolean | string;
+  [attribute: string]: unknown;
+}
+
+export interface TemplateResource {
+  Type: string;
+  Properties?: Record<string, unknown>;
+  DeletionPolicy?: string;
+  [attribute: string]: unknown;
+}
+
+const intrinsicFunctionNames = [
+  "Ref",
+  "Condition",
+  "Base64",
+  "Cidr",
+  "FindInMap",
+  "GetAtt",
+  "GetAZs",
+  "ImportValue",
+  "Join",
+  "Select",
+  "Split",
+  "Sub",
+  "Transform",
+  "And",
+  "Equals",
+  "If",
+  "Not",
+  "Or",
+  "Length",
+  "ToJsonString",
+];
+
+// Maps the YAML short form tags, e.g. `!Sub "${AWS::StackName}-bucket"`, to
+// the equivalent JSON form, e.g. `{ "Fn::Sub": "${AWS::StackName}-bucket" }`.
+// Based on the core schema, which has no timestamps, so unquoted dates like
+// `AWSTemplateFormatVersion: 2010-09-09` stay strings, as for CloudFormation.
+const schema = yaml.CORE_SCHEMA.extend(
+  intrinsicFunctionNames.flatMap((name) => {
+    const key = name === "Ref" || name === "Condition" ? name : `Fn::${name}`;
+    return (["scalar", "sequence", "mapping"] as const).map(
+      (kind) =>
+        new yaml.Type(`!${name}`, {
+          kind,
+          construct(data: unknown) {
+            if (name === "GetAtt" && typeof data === "string") {
+              // !GetAtt Resource.Attribute.Path => [Resource, Attribute.Path]
+              const index = data.indexOf(".");
+              data = [data.slice(0, index), data.slice(index + 1)];
+            }
+            return { [key]: data ?? "" };
+          },
+        }),
+    );
+  }),
+);
+
+// Parses a JSON or YAML template body, with YAML short form intrinsic
+// functions converted to the JSON form.
+export default function parseTemplate(body: string): Template {
+  const template = body.trimStart().startsWith("{")
+    ? JSON.parse(body)
+    : yaml.load(body, { schema });
+  if (typeof template !== "object" || template === null) {
+    throw new Error("Template is not an object");
+  }
+  return template as Template;
+}
+
+export function getNoEchoParameterKeys(template: Template): Set<string> {
+  return new Set(
+    Object.entries(template.Parameters ?? {})
+      .filter(([, parameter]) => String(parameter.NoEcho) === "true")
+      .map(([key]) => key),
+  );
+}
+
+// As getNoEchoParameterKeys(), for a template that is not available locally,
+// using GetTemplateSummary with a TemplateURL, or the StackName of the
+// existing stack for its template.
+export async function describeNoEchoParameterKeys(
+  client: CloudFormation.CloudFormationClient,
+  input: CloudFormation.GetTemplateSummaryInput,
+): Promise<Set<string>> {
+  const { Parameters = [] } = await client.send(
+    new CloudFormation.GetTemplateSummaryCommand(input),
+  );
+  return new Set(
+    Parameters.filter((parameter) => parameter.NoEcho).map(
+      (parameter) => parameter.ParameterKey!,
+    ),
+  );
+}
+
+// Replaces the values of NoEcho parameters when logging them.
+export function maskParameterValue(
+  noEchoKeys: ReadonlySet<string>,
+  key: string,
+  value: string | undefined,
+): string | undefined {
+  return noEchoKeys.has(key) && value !== undefined ? "****" : value;
+}
@@ -0,0 +1,162 @@
+import * as CloudFormation from "@aws-sdk/client-cloudformation";
+
+import parseTemplate, { maskParameterValue, Template } from "./parseTemplate";
+
+export type TemplateLocation = Pick<
+  CloudFormation.CreateChangeSetInput,
+  "TemplateBody" | "TemplateURL" | "UsePreviousTemplate"
+>;
+
+export interface PreflightCheckResult {
+  // Everything wrong with the parameters and capabilities, to report together.
+  problems: string[];
+  // Capabilities the template requires that were not passed.
+  missingCapabilities: CloudFormation.Capability[];
+  capabilitiesReason?: string;
+}
+
+// Validates the template with ValidateTemplate and checks the parameters
+// against it, before a change set is created with them.
+export default async function preflightCheck(
+  client: CloudFormation.CloudFormationClient,
+  stackName: string,
+  template: TemplateLocation,
+  parameters: CloudFormation.Parameter[] = [],
+  capabilities: CloudFormation.Capability[] = [],
+): Promise<PreflightCheckResult> {
+  let templateBody = template.TemplateBody;
+  if (template.UsePreviousTemplate) {
+    const previous = await client.send(
+      new CloudFormation.GetTemplateCommand({
+        StackName: stackName,
+        TemplateStage: "Original",
+      }),
+    );
+    templateBody = previous.TemplateBody;
+  }
+
+  let validation: CloudFormation.ValidateTemplateOutput;
+  try {
+    validation = await client.send(
+      new CloudFormation.ValidateTemplateCommand(
+        templateBody !== undefined
+          ? { TemplateBody: templateBody }
+          : { TemplateURL: template.TemplateURL },
+      ),
+    );
+  } catch (e) {
+    if (e instanceof Error && e.name === "ValidationError") {
+      return {
+        problems: [`Template is invalid: ${e.message}`],
+        missingCapabilities: [],
+      };
+    }
+    throw e;
+  }
+
+  // ValidateTemplate does not return the constraints, so these are only
+  // checked when the template body is available.
+  const declared: Template["Parameters"] =
+    templateBody !== undefined ? parseTemplate(templateBody).Parameters : {};
+
+  const problems: string[] = [];
+  const declaredKeys = new Set(
+    validation.Parameters?.map((parameter) => parameter.ParameterKey!),
+  );
+  const passedKeys = new Set(
+    parameters.map((parameter) => parameter.ParameterKey!),
+  );
+  const noEchoKeys = new Set(
+    validation.Parameters?.filter((parameter) => parameter.NoEcho).map(
+      (parameter) => parameter.ParameterKey!,
+    ),
+  );
+
+  for (const parameter of parameters) {
+    const key = parameter.ParameterKey!;
+    if (!declaredKeys.has(key)) {
+      problems.push(`Unknown parameter: ${key}`);
+      continue;
+    }
+    const declaration = declared?.[key];
+    if (!declaration || parameter.UsePreviousValue) {
+      continue;
+    }
+    const values = isListType(declaration.Type)
+      ? parameter.ParameterValue!.split(",")
+      : [parameter.ParameterValue!];
+    const pattern =
+      declaration.AllowedPattern !== undefined
+        ? compilePattern(declaration.AllowedPattern)
+        : null;
+    for (const value of values) {
+      const displayValue = JSON.stringify(
+        maskParameterValue(noEchoKeys, key, value),
+      );
+      if (
+        declaration.AllowedValues &&
+        !declaration.AllowedValues.map(String).includes(value)
+      ) {
+        problems.push(
+          `Parameter ${key} value ${displayValue} is not one of: ${declaration.AllowedValues.join(
+            ", ",
+          )}`,
+        );
+      }
+      if (pattern && !pattern.test(value)) {
+        problems.push(
+          `Parameter ${key} value ${displayValue} does not match pattern: ${declaration.AllowedPattern}`,
+        );
+      }
+    }
+  }
+
+  for (const parameter of validation.Parameters ?? []) {
+    if (
+      parameter.DefaultValue === undefined &&
+      !passedKeys.has(parameter.ParameterKey!)
+    ) {
+      problems.push(`Missing required parameter: ${parameter.ParameterKey}`);
+    }
+  }
+
+  const missingCapabilities = (
+    (validation.Capabilities ?? []) as CloudFormation.Capability[]
+  ).filter((capability) => !hasCapability(capabilities, capability));
+
+  return {
+    problems,
+    missingCapabilities,
+    capabilitiesReason: validation.CapabilitiesReason,
+  };
+}
+
+// CloudFormation patterns are Java regular expressions, which JavaScript may
+// not be able to parse, e.g. with possessive quantifiers. Those are left to
+// CloudFormation to check.
+function compilePattern(pattern: string) {
+  try {
+    return new RegExp(`^(?:${pattern})$`);
+  } catch (e) {
+    if (e instanceof SyntaxError) {
+      return null;
+    }
+    throw e;
+  }
+}
+
+// CAPABILITY_NAMED_IAM also allows what CAPABILITY_IAM does.
+export function hasCapability(
+  capabilities: CloudFormation.Capability[],
+  capability: CloudFormation.Capability,
+) {
+  return (
+    capabilities.includes(capability) ||
+    (capability === CloudFormation.Capability.CAPABILITY_IAM &&
+      capabilities.includes(CloudFormation.Capability.CAPABILITY_NAMED_IAM))
+  );
+}
+
+function isListType(type: string) {
+  return type === "CommaDelimitedList" || type.startsWith("List<");
+}
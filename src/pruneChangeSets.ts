@@ -0,0 +1,88 @@
+import * as CloudFormation from "@aws-sdk/client-cloudformation";
+
+import { Clock, createPrompt, Logger } from "./deployStack";
+import {
+  changeSetNamePrefix,
+  describeStack,
+  listChangeSets,
+  realClock,
+} from "./stackPolling";
+
+export interface PruneChangeSetsOptions {
+  logger?: Logger;
+  prompt?: (message: string) => boolean | PromiseLike<boolean>;
+  // Only change sets created longer ago than this many milliseconds are
+  // deleted. Default: 24 hours
+  olderThan?: number;
+  clock?: Clock;
+
+  client: CloudFormation.CloudFormationClient;
+  stackName: string;
+}
+
+// Prompts with the change sets created by deployStack() that are older than
+// olderThan, e.g. left by a crashed or abandoned deploy, then deletes them.
+// If that leaves a REVIEW_IN_PROGRESS stack without change sets, the stack is
+// also deleted. Resolves to the deleted change sets.
+export default async function pruneChangeSets({
+  logger = console,
+  prompt = createPrompt(process.stdin, process.stdout),
+  olderThan = 24 * 60 * 60 * 1000,
+  clock = realClock,
+  client,
+  stackName,
+}: PruneChangeSetsOptions): Promise<CloudFormation.ChangeSetSummary[]> {
+  const stack = await describeStack(client, stackName);
+  if (!stack || stack.StackStatus === "DELETE_COMPLETE") {
+    logger.log("Stack does not exist");
+    return [];
+  }
+
+  const changeSets = await listChangeSets(client, stackName);
+  const cutoff = clock.now() - olderThan;
+  const stale = changeSets.filter(
+    (changeSet) =>
+      changeSet.ChangeSetName?.startsWith(changeSetNamePrefix) &&
+      changeSet.ExecutionStatus !== "EXECUTE_IN_PROGRESS" &&
+      changeSet.CreationTime!.valueOf() <= cutoff,
+  );
+  if (!stale.length) {
+    logger.log("No change sets to prune");
+    return [];
+  }
+
+  logger.log(
+    "Change sets:\n%s",
+    stale
+      .map(
+        (changeSet) =>
+          `  ${changeSet.ChangeSetName}: ${changeSet.Status}, ${
+            changeSet.ExecutionStatus
+          }, created ${changeSet.CreationTime!.toISOString()}`,
+      )
+      .join("\n"),
+  );
+  if (!(await prompt(`Delete ${stale.length} change sets?`))) {
+    return [];
+  }
+
+  for (const changeSet of stale) {
+    logger.log("Deleting change set %s...", changeSet.ChangeSetName);
+    await client.send(
+      new CloudFormation.DeleteChangeSetCommand({
+        ChangeSetName: changeSet.ChangeSetId,
+      }),
+    );
+  }
+
+  if (
+    stack.StackStatus === "REVIEW_IN_PROGRESS" &&
+    stale.length === changeSets.length
+  ) {
+    logger.log("Deleting empty REVIEW_IN_PROGRESS stack...");
+    await client.send(
+      new CloudFormation.DeleteStackCommand({ StackName: stack.StackId }),
+    );
+  }
+  return stale;
+}
@@ -0,0 +1,173 @@
+import * as timers from "node:timers/promises";
+
+import * as CloudFormation from "@aws-sdk/client-cloudformation";
+
+import {
+  Clock,
+  Logger,
+  PollingOptions,
+  StackWaiter,
+  StackWaiterReason,
+} from "./deployStack";
+import { DeployStackAbortedError, DeployStackTimeoutError } from "./errors";
+
+// Polling shared by deployStack(), deleteStack() and detectStackDrift().
+
+export const realClock: Clock = {
+  now: () => Date.now(),
+  sleep: (ms, signal) => timers.setTimeout(ms, undefined, { signal }),
+};
+
+export interface StackContext {
+  client: CloudFormation.CloudFormationClient;
+  logger: Logger;
+  waiter?: StackWaiter;
+  signal?: AbortSignal;
+  polling: PollingOptions;
+  // Clock time after which polling throws DeployStackTimeoutError.
+  deadline: number | null;
+}
+
+export function createStackContext({
+  client,
+  logger = console,
+  waiter,
+  signal,
+  polling = {},
+}: {
+  client: CloudFormation.CloudFormationClient;
+  logger?: Logger;
+  waiter?: StackWaiter;
+  signal?: AbortSignal;
+  polling?: PollingOptions;
+}): StackContext {
+  const { clock = realClock } = polling;
+  const deadline =
+    polling.timeout !== undefined ? clock.now() + polling.timeout : null;
+  return { client, logger, waiter, signal, polling, deadline };
+}
+
+export async function waitUntilDone(
+  context: StackContext,
+  reason: StackWaiterReason,
+  stackName: string,
+  changes: CloudFormation.Change[] | null = null,
+) {
+  const { client, waiter } = context;
+  const poller = createPoller(context, 2000);
+  let stack: CloudFormation.Stack | null;
+  do {
+    await poller.wait();
+    stack = await retryThrottled(poller, async () => {
+      const stack = await describeStack(client, stackName);
+      if (waiter)
+        await waiter.progress({ client, reason, stackName, stack, changes });
+      return stack;
+    });
+  } while (stack && stack.StackStatus?.endsWith("_IN_PROGRESS"));
+  if (waiter)
+    await retryThrottled(poller, async () =>
+      waiter.complete({ client, reason, stackName, stack, changes }),
+    );
+  return stack;
+}
+
+export interface Poller {
+  // Waits for the current interval, then applies backoff.
+  wait(): Promise<void>;
+  // Increases the interval after a request was throttled.
+  throttled(): void;
+}
+
+export function createPoller(
+  { signal, polling, deadline }: StackContext,
+  defaultInterval: number,
+): Poller {
+  const { backoff = 1, maxInterval = 30_000, clock = realClock } = polling;
+  let interval = polling.interval ?? defaultInterval;
+
+  return {
+    async wait() {
+      if (deadline !== null && clock.now() + interval > deadline) {
+        throw new DeployStackTimeoutError(polling.timeout!);
+      }
+      try {
+        await clock.sleep(interval, signal);
+      } catch (e) {
+        if (e instanceof Error && e.name === "AbortError") {
+          throw new DeployStackAbortedError();
+        }
+        throw e;
+      }
+      interval = Math.min(interval * backoff, maxInterval);
+    },
+    throttled() {
+      interval = Math.min(interval * 2, maxInterval);
+    },
+  };
+}
+
+export async function retryThrottled<T>(
+  poller: Poller,
+  send: () => Promise<T>,
+): Promise<T> {
+  while (true) {
+    try {
+      return await send();
+    } catch (e) {
+      if (!isThrottlingError(e)) {
+        throw e;
+      }
+      poller.throttled();
+      await poller.wait();
+    }
+  }
+}
+
+function isThrottlingError(e: unknown) {
+  return (
+    e instanceof Error &&
+    (e.name === "Throttling" ||
+      e.name === "ThrottlingException" ||
+      (e as { $retryable?: { throttling?: boolean } }).$retryable
+        ?.throttling === true)
+  );
+}
+
+export async function describeStack(
+  client: CloudFormation.CloudFormationClient,
+  stackName: string,
+) {
+  try {
+    const res = await client.send(
+      new CloudFormation.DescribeStacksCommand({ StackName: stackName }),
+    );
+    return res.Stacks![0];
+  } catch (e) {
+    if (
+      e instanceof Error &&
+      e.name === "ValidationError" &&
+      e.message === `Stack with id ${stackName} does not exist`
+    ) {
+      return null;
+    }
+    throw e;
+  }
+}
+
+// Change sets created by deployStack() are named with this prefix.
+export const changeSetNamePrefix = "deploy-";
+
+export async function listChangeSets(
+  client: CloudFormation.CloudFormationClient,
+  stackName: string,
+) {
+  const summaries: CloudFormation.ChangeSetSummary[] = [];
+  for await (const response of CloudFormation.paginateListChangeSets(
+    { client },
+    { StackName: stackName },
+  )) {
+    summaries.push(...(response.Summaries ?? []));
+  }
+  return summaries;
+}
@@ -0,0 +1,57 @@
+import * as crypto from "node:crypto";
+
+import * as S3 from "@aws-sdk/client-s3";
+
+import { Logger } from "./deployStack";
+
+export interface BucketLocation {
+  client: S3.S3Client;
+  bucket: string;
+  prefix?: string;
+}
+
+export interface UploadedObject {
+  bucket: string;
+  key: string;
+  url: string;
+}
+
+// Uploads body to the bucket under a key derived from its content hash, so
+// repeated deploys of unchanged content skip the upload.
+export default async function uploadToBucket(
+  { client, bucket, prefix = "" }: BucketLocation,
+  body: string | Buffer,
+  extension: string,
+  logger: Logger = console,
+): Promise<UploadedObject> {
+  if (prefix && !prefix.endsWith("/")) {
+    prefix += "/";
+  }
+  const hash = crypto.createHash("sha256").update(body).digest("hex");
+  const key = `${prefix}${hash}${extension}`;
+  const region = await client.config.region();
+  const url = `https://${bucket}.s3.${region}.amazonaws.com/${key}`;
+
+  if (await objectExists(client, bucket, key)) {
+    logger.log("Already uploaded %O", url);
+  } else {
+    logger.log("Uploading %O", url);
+    await client.send(
+      new S3.PutObjectCommand({ Bucket: bucket, Key: key, Body: body }),
+    );
+  }
+
+  return { bucket, key, url };
+}
+
+async function objectExists(client: S3.S3Client, bucket: string, key: string) {
+  try {
+    await client.send(new S3.HeadObjectCommand({ Bucket: bucket, Key: key }));
+    return true;
+  } catch (e) {
+    if (e instanceof Error && e.name === "NotFound") {
+      return false;
+    }
+    throw e;
+  }
+}
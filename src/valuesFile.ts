@@ -0,0 +1,316 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+import * as CloudFormation from "@aws-sdk/client-cloudformation";
+import * as yaml from "js-yaml";
+
+import { ChangeSetPolicy } from "./changeSetPolicy";
+import { OptionError } from "./options";
+
+// Reads template parameters from any of:
+// - AWS CLI JSON: [{ "ParameterKey": "Name", "ParameterValue": "value" }]
+// - JSON or YAML map: { "Name": "value" }
+// - CodePipeline template configuration: { "Parameters": { "Name": "value" } }
+// - .env file: Name=value
+export function readParametersFile(
+  filePath: string,
+): CloudFormation.Parameter[] {
+  const data = readValuesFile(filePath, "Parameters");
+  if (Array.isArray(data)) {
+    return data.map((item) => {
+      if (!isObject(item) || typeof item.ParameterKey !== "string") {
+        throw new OptionError(
+          `${filePath}: expected items with "ParameterKey" and "ParameterValue"`,
+        );
+      }
+      if (item.UsePreviousValue === true) {
+        return { ParameterKey: item.ParameterKey, UsePreviousValue: true };
+      }
+      return {
+        ParameterKey: item.ParameterKey,
+        ParameterValue: toValueString(filePath, item.ParameterValue),
+      };
+    });
+  }
+  return Object.entries(data).map(([key, value]) => ({
+    ParameterKey: key,
+    ParameterValue: toValueString(filePath, value),
+  }));
+}
+
+// Reads stack tags, from the same formats as readParametersFile(), using
+// "Key" and "Value" for the AWS CLI format and "Tags" for CodePipeline.
+export function readTagsFile(filePath: string): CloudFormation.Tag[] {
+  const data = readValuesFile(filePath, "Tags");
+  if (Array.isArray(data)) {
+    return data.map((item) => {
+      if (!isObject(item) || typeof item.Key !== "string") {
+        throw new OptionError(
+          `${filePath}: expected items with "Key" and "Value"`,
+        );
+      }
+      return { Key: item.Key, Value: toValueString(filePath, item.Value) };
+    });
+  }
+  return Object.entries(data).map(([key, value]) => ({
+    Key: key,
+    Value: toValueString(filePath, value),
+  }));
+}
+
+// Reads a JSON or YAML change set policy, e.g.:
+// { "protectedResourceTypes": ["AWS::RDS::*"], "protectedLogicalIds": ["Db"] }
+export function readChangeSetPolicyFile(filePath: string): ChangeSetPolicy {
+  if (!fs.existsSync(filePath)) {
+    throw new OptionError(`File does not exist: ${filePath}`);
+  }
+  const data = parseYaml(filePath, fs.readFileSync(filePath, "utf-8"));
+  if (!isObject(data)) {
+    throw new OptionError(`${filePath}: expected a map`);
+  }
+  const policy: ChangeSetPolicy = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (key !== "protectedResourceTypes" && key !== "protectedLogicalIds") {
+      throw new OptionError(`${filePath}: unknown key ${key}`);
+    }
+    if (
+      !Array.isArray(value) ||
+      !value.every((item) => typeof item === "string")
+    ) {
+      throw new OptionError(`${filePath}: ${key} must be a list of strings`);
+    }
+    policy[key] = value;
+  }
+  return policy;
+}
+
+// Reads the resources to import into a stack, as a JSON or YAML list in the
+// format of the AWS CLI --resources-to-import option, e.g.:
+//   [{ "ResourceType": "AWS::S3::Bucket", "LogicalResourceId": "Bucket",
+//      "ResourceIdentifier": { "BucketName": "my-bucket" } }]
+export function readImportFile(
+  filePath: string,
+): CloudFormation.ResourceToImport[] {
+  if (!fs.existsSync(filePath)) {
+    throw new OptionError(`File does not exist: ${filePath}`);
+  }
+  const data = parseYaml(filePath, fs.readFileSync(filePath, "utf-8"));
+  if (!Array.isArray(data)) {
+    throw new OptionError(`${filePath}: expected a list of resources`);
+  }
+  return data.map((item, index) => {
+    if (
+      !isObject(item) ||
+      typeof item.ResourceType !== "string" ||
+      typeof item.LogicalResourceId !== "string" ||
+      !isObject(item.ResourceIdentifier) ||
+      !Object.values(item.ResourceIdentifier).every(
+        (value) => typeof value === "string",
+      )
+    ) {
+      throw new OptionError(
+        `${filePath}: resource ${index} expected "ResourceType" and "LogicalResourceId" strings, and a "ResourceIdentifier" map of strings`,
+      );
+    }
+    return {
+      ResourceType: item.ResourceType,
+      LogicalResourceId: item.LogicalResourceId,
+      ResourceIdentifier: item.ResourceIdentifier as Record<string, string>,
+    };
+  });
+}
+
+export interface StacksConfig {
+  // Default for stacks without a region.
+  region?: string;
+  stacks: Record<string, StackConfig>;
+}
+
+export interface StackConfig {
+  stackName: string;
+  // Resolved relative to the config file.
+  templatePath: string;
+  region?: string;
+  parameters: CloudFormation.Parameter[];
+  tags: CloudFormation.Tag[];
+  capabilities: string[];
+}
+
+// Reads a JSON or YAML deploy-stack.config file of stacks by ID, e.g.:
+//   region: us-east-1
+//   stacks:
+//     network:
+//       template: network.yaml
+//     api:
+//       stackName: my-app-api
+//       template: api.yaml
+//       parameters:
+//         VpcId: ${network.VpcId}
+//       tags:
+//         app: my-app
+//       capabilities: [CAPABILITY_IAM]
+export function readStacksConfig(filePath: string): StacksConfig {
+  if (!fs.existsSync(filePath)) {
+    throw new OptionError(`File does not exist: ${filePath}`);
+  }
+  const data = parseYaml(filePath, fs.readFileSync(filePath, "utf-8"));
+  if (!isObject(data) || !isObject(data.stacks)) {
+    throw new OptionError(`${filePath}: expected a map of "stacks"`);
+  }
+  if (data.region !== undefined && typeof data.region !== "string") {
+    throw new OptionError(`${filePath}: region must be a string`);
+  }
+
+  const stacks: Record<string, StackConfig> = {};
+  for (const [id, stack] of Object.entries(data.stacks)) {
+    if (!isObject(stack) || typeof stack.template !== "string") {
+      throw new OptionError(`${filePath}: stack ${id} requires a "template"`);
+    }
+    const { stackName = id, region, parameters = {}, tags = {} } = stack;
+    const capabilities = stack.capabilities ?? [];
+    if (
+      typeof stackName !== "string" ||
+      (region !== undefined && typeof region !== "string") ||
+      !isObject(parameters) ||
+      !isObject(tags) ||
+      !Array.isArray(capabilities) ||
+      !capabilities.every((item) => typeof item === "string")
+    ) {
+      throw new OptionError(
+        `${filePath}: stack ${id} expected "stackName" and "region" strings, "parameters" and "tags" maps, and a "capabilities" list`,
+      );
+    }
+    stacks[id] = {
+      stackName,
+      templatePath: path.resolve(path.dirname(filePath), stack.template),
+      region,
+      parameters: Object.entries(parameters).map(([key, value]) => ({
+        ParameterKey: key,
+        ParameterValue: toValueString(filePath, value),
+      })),
+      tags: Object.entries(tags).map(([key, value]) => ({
+        Key: key,
+        Value: toValueString(filePath, value),
+      })),
+      capabilities,
+    };
+  }
+  return { region: data.region, stacks };
+}
+
+export interface TargetConfig {
+  region: string;
+  // Profile name in ~/.aws/credentials, instead of the default credentials.
+  profile?: string;
+  // Role to assume with the credentials, e.g. to deploy to another account.
+  roleArn?: string;
+}
+
+// Reads a JSON or YAML list of targets to deploy to, e.g.:
+//   - region: us-east-1
+//   - region: eu-west-1
+//     roleArn: arn:aws:iam::123456789012:role/deploy
+export function readTargetsFile(filePath: string): TargetConfig[] {
+  if (!fs.existsSync(filePath)) {
+    throw new OptionError(`File does not exist: ${filePath}`);
+  }
+  const data = parseYaml(filePath, fs.readFileSync(filePath, "utf-8"));
+  if (!Array.isArray(data)) {
+    throw new OptionError(`${filePath}: expected a list of targets`);
+  }
+  return data.map((target, index) => {
+    if (
+      !isObject(target) ||
+      typeof target.region !== "string" ||
+      (target.profile !== undefined && typeof target.profile !== "string") ||
+      (target.roleArn !== undefined && typeof target.roleArn !== "string")
+    ) {
+      throw new OptionError(
+        `${filePath}: target ${index} expected a "region" string, and optional "profile" and "roleArn" strings`,
+      );
+    }
+    const { region, profile, roleArn } = target;
+    return { region, profile, roleArn };
+  });
+}
+
+function readValuesFile(
+  filePath: string,
+  section: "Parameters" | "Tags",
+): unknown[] | Record<string, unknown> {
+  if (!fs.existsSync(filePath)) {
+    throw new OptionError(`File does not exist: ${filePath}`);
+  }
+  const text = fs.readFileSync(filePath, "utf-8");
+
+  if (isEnvFile(filePath)) {
+    return parseEnvFile(text);
+  }
+
+  let data = parseYaml(filePath, text);
+
+  if (isObject(data) && (isObject(data.Parameters) || isObject(data.Tags))) {
+    data = data[section] ?? {};
+  }
+  if (Array.isArray(data) || isObject(data)) {
+    return data;
+  }
+  throw new OptionError(`${filePath}: expected an array or a map of values`);
+}
+
+function parseYaml(filePath: string, text: string): unknown {
+  try {
+    // JSON is (close enough to) a subset of YAML.
+    return yaml.load(text, { filename: filePath });
+  } catch (e) {
+    throw new OptionError(`${filePath}: ${(e as Error).message}`);
+  }
+}
+
+function isEnvFile(filePath: string) {
+  const name = path.basename(filePath);
+  return name === ".env" || name.startsWith(".env.") || name.endsWith(".env");
+}
+
+function parseEnvFile(text: string) {
+  const values: Record<string, string> = {};
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.match(
+      /^\s*(?:export\s+)?([\w.-]+)\s*=\s*("(?:\\.|[^"])*"|'[^']*'|[^#]*?)\s*(?:#.*)?$/,
+    );
+    if (!match) {
+      continue;
+    }
+    let value = match[2];
+    if (value.startsWith('"')) {
+      value = value
+        .slice(1, -1)
+        .replace(/\\(.)/g, (_, c) => (c === "n" ? "\n" : c));
+    } else if (value.startsWith("'")) {
+      value = value.slice(1, -1);
+    }
+    values[match[1]] = value;
+  }
+  return values;
+}
+
+function toValueString(filePath: string, value: unknown): string {
+  if (Array.isArray(value)) {
+    // Same as CommaDelimitedList parameters
+    return value.map((item) => toValueString(filePath, item)).join(",");
+  }
+  if (
+    typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean"
+  ) {
+    return String(value);
+  }
+  throw new OptionError(
+    `${filePath}: unsupported value ${JSON.stringify(value)}`,
+  );
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,132 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as zlib from "node:zlib";
+
+// Zips a directory, or a single file, so that the same content always gives
+// the same bytes: entries are sorted, and timestamps and permissions other
+// than the executable bit are not kept.
+export default function zipDirectory(directoryOrFile: string): Buffer {
+  const files = fs.statSync(directoryOrFile).isDirectory()
+    ? listFiles(directoryOrFile, "")
+    : [
+        {
+          name: path.basename(directoryOrFile),
+          filePath: directoryOrFile,
+        },
+      ];
+
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+  for (const { name, filePath } of files) {
+    const data = fs.readFileSync(filePath);
+    const compressed = zlib.deflateRawSync(data, { level: 9 });
+    const executable = (fs.statSync(filePath).mode & 0o111) !== 0;
+    const entry: ZipEntry = {
+      name: Buffer.from(name, "utf-8"),
+      crc: crc32(data),
+      compressedSize: compressed.length,
+      size: data.length,
+      mode: executable ? 0o100755 : 0o100644,
+      offset,
+    };
+    const header = localFileHeader(entry);
+    localParts.push(header, compressed);
+    centralParts.push(centralDirectoryHeader(entry));
+    offset += header.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  if (offset + centralDirectory.length > 0xffff_ffff) {
+    throw new Error(`${directoryOrFile} is too large to zip`);
+  }
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+interface ZipEntry {
+  name: Buffer;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  mode: number;
+  offset: number;
+}
+
+// 1980-01-01 00:00:00, the earliest DOS date.
+const dosTime = 0;
+const dosDate = (1 << 5) | 1;
+// Deflate, and names are UTF-8.
+const method = 8;
+const flags = 0x0800;
+
+function listFiles(
+  directory: string,
+  prefix: string,
+): { name: string; filePath: string }[] {
+  return fs
+    .readdirSync(directory)
+    .sort()
+    .flatMap((entryName) => {
+      const filePath = path.join(directory, entryName);
+      const name = prefix + entryName;
+      return fs.statSync(filePath).isDirectory()
+        ? listFiles(filePath, `${name}/`)
+        : [{ name, filePath }];
+    });
+}
+
+function localFileHeader(entry: ZipEntry) {
+  const header = Buffer.alloc(30);
+  header.writeUInt32LE(0x04034b50, 0);
+  header.writeUInt16LE(20, 4);
+  header.writeUInt16LE(flags, 6);
+  header.writeUInt16LE(method, 8);
+  header.writeUInt16LE(dosTime, 10);
+  header.writeUInt16LE(dosDate, 12);
+  header.writeUInt32LE(entry.crc, 14);
+  header.writeUInt32LE(entry.compressedSize, 18);
+  header.writeUInt32LE(entry.size, 22);
+  header.writeUInt16LE(entry.name.length, 26);
+  return Buffer.concat([header, entry.name]);
+}
+
+function centralDirectoryHeader(entry: ZipEntry) {
+  const header = Buffer.alloc(46);
+  header.writeUInt32LE(0x02014b50, 0);
+  // Made by Unix, so the external attributes are the file mode.
+  header.writeUInt16LE((3 << 8) | 20, 4);
+  header.writeUInt16LE(20, 6);
+  header.writeUInt16LE(flags, 8);
+  header.writeUInt16LE(method, 10);
+  header.writeUInt16LE(dosTime, 12);
+  header.writeUInt16LE(dosDate, 14);
+  header.writeUInt32LE(entry.crc, 16);
+  header.writeUInt32LE(entry.compressedSize, 20);
+  header.writeUInt32LE(entry.size, 24);
+  header.writeUInt16LE(entry.name.length, 28);
+  header.writeUInt32LE((entry.mode << 16) >>> 0, 38);
+  header.writeUInt32LE(entry.offset, 42);
+  return Buffer.concat([header, entry.name]);
+}
+
+const crcTable = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer) {
+  let crc = 0xffff_ffff;
+  for (const byte of data) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffff_ffff) >>> 0;
+}
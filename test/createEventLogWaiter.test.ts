@@ -0,0 +1,104 @@
+import * as util from "node:util";
+
+import createEventLogWaiter from "../src/createEventLogWaiter";
+import deployStack from "../src/deployStack";
+import { FakeCloudFormationClient } from "../src/fakeCloudFormationClient";
+
+const template = JSON.stringify({
+  Resources: {
+    Bucket: { Type: "AWS::S3::Bucket" },
+    Queue: { Type: "AWS::SQS::Queue" },
+  },
+});
+
+let client: FakeCloudFormationClient;
+let lines: string[];
+
+beforeEach(() => {
+  // The waiter only prints events after it was created, in real time.
+  jest.useFakeTimers({
+    now: new Date("2024-01-01T00:00:00Z"),
+    doNotFake: ["nextTick", "setImmediate", "queueMicrotask"],
+  });
+  client = new FakeCloudFormationClient();
+  lines = [];
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+function deploy(options: { stackName?: string; templateBody?: string } = {}) {
+  return deployStack({
+    client,
+    logger: { log() {} },
+    prompt: () => true,
+    waiter: createEventLogWaiter({
+      log: (format, ...args) => lines.push(util.format(format, ...args)),
+    }),
+    polling: { clock: client.clock },
+    stackName: "test",
+    templateBody: template,
+    ...options,
+  });
+}
+
+describe("createEventLogWaiter", () => {
+  it("prints each event once, newest first for each poll", async () => {
+    client.scriptNextOperation("test", { resourceDuration: 3000 });
+
+    await deploy();
+
+    const events = lines
+      .filter((line) => line.includes(" | "))
+      .map((line) => line.split(" | "));
+    expect(
+      events.map(([, , id, status]) => `${id.trim()} ${status.trim()}`),
+    ).toEqual([
+      "Bucket CREATE_IN_PROGRESS",
+      "test CREATE_IN_PROGRESS",
+      "Queue CREATE_IN_PROGRESS",
+      "Bucket CREATE_COMPLETE",
+      "test CREATE_COMPLETE",
+      "Queue CREATE_COMPLETE",
+    ]);
+    // Columns are padded to the longest type and logical ID.
+    expect(events[0][1]).toBe("AWS::S3::Bucket".padEnd(26));
+    expect(events[0][2]).toBe("Bucket");
+    expect(events[1][2]).toBe("test  ");
+    expect(lines[lines.length - 1]).toBe("Waiting for EXECUTING complete");
+  });
+
+  it("prints the reason resources failed", async () => {
+    client.scriptNextOperation("test", {
+      failResource: "Queue",
+      reason: "Queue already exists",
+    });
+
+    await expect(deploy()).rejects.toThrow();
+
+    expect(lines).toContainEqual(
+      expect.stringMatching(
+        /Queue +\| CREATE_FAILED +\| Queue already exists$/,
+      ),
+    );
+    expect(lines).toContainEqual(
+      expect.stringMatching(/test +\| ROLLBACK_COMPLETE/),
+    );
+  });
+
+  it("reads resources to align columns without changes", async () => {
+    client.addStack({
+      StackName: "test",
+      StackStatus: "UPDATE_IN_PROGRESS",
+      TemplateBody: template,
+    });
+
+    await deploy({ templateBody: JSON.stringify({ Resources: {} }) });
+
+    expect(client.calls.map((call) => call.name)).toContain(
+      "DescribeStackResources",
+    );
+    expect(lines).toContain("Waiting for IN_PROGRESS_EXISTING complete");
+  });
+});
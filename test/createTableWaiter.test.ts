@@ -0,0 +1,98 @@
+import logUpdate from "log-update";
+
+import createTableWaiter, {
+  createTableWaiterGroup,
+} from "../src/createTableWaiter";
+import deployStack, { StackWaiter } from "../src/deployStack";
+import { FakeCloudFormationClient } from "../src/fakeCloudFormationClient";
+
+// log-update is ESM only, and writes to the terminal.
+jest.mock("log-update", () => {
+  const logUpdate = Object.assign(jest.fn(), {
+    clear: jest.fn(),
+    done: jest.fn(),
+  });
+  return { __esModule: true, default: logUpdate };
+});
+
+const mockLogUpdate = logUpdate as jest.MockedFunction<typeof logUpdate> & {
+  clear: jest.Mock;
+  done: jest.Mock;
+};
+
+const template = JSON.stringify({
+  Resources: {
+    Bucket: { Type: "AWS::S3::Bucket" },
+    Queue: { Type: "AWS::SQS::Queue" },
+  },
+});
+
+let client: FakeCloudFormationClient;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  client = new FakeCloudFormationClient();
+});
+
+function deploy(stackName: string, waiter: StackWaiter) {
+  return deployStack({
+    client,
+    logger: { log() {} },
+    prompt: () => true,
+    waiter,
+    polling: { clock: client.clock },
+    stackName,
+    templateBody: template,
+  });
+}
+
+describe("createTableWaiter", () => {
+  it("renders the stack status, resources and events", async () => {
+    client.scriptNextOperation("test", { resourceDuration: 3000 });
+
+    await deploy("test", createTableWaiter());
+
+    const renders = mockLogUpdate.mock.calls.map(([text]) => text);
+    expect(renders[0]).toMatch(/^Stack status: CREATE_IN_PROGRESS/);
+    expect(renders[0]).toMatch(/Bucket +test-Bucket +AWS::S3::Bucket/);
+    expect(renders[renders.length - 1]).toMatch(
+      /^Stack status: CREATE_COMPLETE/,
+    );
+    expect(renders[renders.length - 1]).toMatch(/Last 5 events:/);
+    expect(mockLogUpdate.done).toHaveBeenCalledTimes(1);
+    expect(mockLogUpdate.clear).not.toHaveBeenCalled();
+  });
+
+  it("clears the table after waiting for an existing operation", async () => {
+    client.addStack({
+      StackName: "test",
+      StackStatus: "UPDATE_IN_PROGRESS",
+      TemplateBody: template,
+    });
+
+    await deploy("test", createTableWaiter());
+
+    expect(mockLogUpdate.clear).toHaveBeenCalledTimes(1);
+    expect(mockLogUpdate.done).not.toHaveBeenCalled();
+  });
+});
+
+describe("createTableWaiterGroup", () => {
+  it("renders each stack under its label", async () => {
+    const createWaiter = createTableWaiterGroup();
+
+    await Promise.all([
+      deploy("first", createWaiter("first")),
+      deploy("second", createWaiter("second")),
+    ]);
+
+    const renders = mockLogUpdate.mock.calls.map(([text]) => text);
+    expect(renders).toContainEqual(
+      expect.stringMatching(
+        /^\[first\] Stack status: .*\n(.*\n)*\[second\] Stack status: /,
+      ),
+    );
+    expect(renders[renders.length - 1]).not.toMatch(/Resources:/);
+    expect(mockLogUpdate.done).toHaveBeenCalledTimes(1);
+  });
+});
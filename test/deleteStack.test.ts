@@ -0,0 +1,73 @@
+import deleteStack, { DeleteStackOptions } from "../src/deleteStack";
+import {
+  RetainResourcesNotAllowedError,
+  TerminationProtectionEnabledError,
+} from "../src/errors";
+import { FakeCloudFormationClient } from "../src/fakeCloudFormationClient";
+
+const bucketTemplate = JSON.stringify({
+  Resources: { Bucket: { Type: "AWS::S3::Bucket" } },
+});
+
+let client: FakeCloudFormationClient;
+
+beforeEach(() => {
+  client = new FakeCloudFormationClient();
+});
+
+function remove(options: Partial<DeleteStackOptions> = {}) {
+  return deleteStack({
+    client,
+    logger: { log() {} },
+    prompt: () => true,
+    polling: { clock: client.clock },
+    stackName: "test",
+    ...options,
+  });
+}
+
+describe("deleteStack", () => {
+  it("deletes the stack", async () => {
+    client.addStack({ StackName: "test", TemplateBody: bucketTemplate });
+
+    expect(await remove()).toBe(true);
+    expect(client.getStack("test")).toBeUndefined();
+  });
+
+  it("throws for termination protection without force", async () => {
+    client.addStack({
+      StackName: "test",
+      TemplateBody: bucketTemplate,
+      EnableTerminationProtection: true,
+    });
+
+    const prompt = jest.fn(() => true);
+
+    await expect(remove({ prompt })).rejects.toThrow(
+      TerminationProtectionEnabledError,
+    );
+    expect(prompt).not.toHaveBeenCalled();
+  });
+
+  it("disables termination protection with force", async () => {
+    client.addStack({
+      StackName: "test",
+      TemplateBody: bucketTemplate,
+      EnableTerminationProtection: true,
+    });
+
+    expect(await remove({ force: true })).toBe(true);
+    expect(client.calls.map((call) => call.name)).toContain(
+      "UpdateTerminationProtection",
+    );
+  });
+
+  it("only retains resources of a DELETE_FAILED stack", async () => {
+    client.addStack({ StackName: "test", TemplateBody: bucketTemplate });
+
+    await expect(remove({ retainResources: ["Bucket"] })).rejects.toThrow(
+      RetainResourcesNotAllowedError,
+    );
+    expect(client.calls.map((call) => call.name)).not.toContain("DeleteStack");
+  });
+});
@@ -0,0 +1,947 @@
+import * as util from "node:util";
+
+import {
+  Capability,
+  CreateChangeSetInput,
+} from "@aws-sdk/client-cloudformation";
+
+import deployStack, {
+  applyChangeSet,
+  ChangeSetNotAvailableError,
+  ChangeSetPolicyViolationError,
+  DeployHookVetoedError,
+  DeployStackAbortedError,
+  DeployStackOptions,
+  DeployStackTimeoutError,
+  DriftDetectionFailedError,
+  InvalidCompleteStatusStackError,
+  InvalidImportResourcesError,
+  InvalidStatusBeforeUpdateStackError,
+  InvalidTemplateOptionsError,
+  NoPreviousValuesError,
+  planStack,
+  PreflightValidationError,
+  StackDriftedError,
+  TemplateTooLargeError,
+} from "../src/deployStack";
+import { FakeCloudFormationClient } from "../src/fakeCloudFormationClient";
+
+const bucketTemplate = JSON.stringify({
+  Resources: { Bucket: { Type: "AWS::S3::Bucket" } },
+  Outputs: { BucketName: { Value: { Ref: "Bucket" } } },
+});
+
+const queueTemplate = JSON.stringify({
+  Resources: {
+    Bucket: { Type: "AWS::S3::Bucket" },
+    Queue: { Type: "AWS::SQS::Queue" },
+  },
+});
+
+let client: FakeCloudFormationClient;
+let logs: string[];
+
+beforeEach(() => {
+  client = new FakeCloudFormationClient();
+  logs = [];
+});
+
+function deploy(options: Partial<DeployStackOptions> = {}) {
+  return deployStack({
+    client,
+    logger: { log: (format) => logs.push(format) },
+    prompt: () => true,
+    changeFormatter: () => "",
+    polling: { clock: client.clock },
+    stackName: "test",
+    templateBody: queueTemplate,
+    ...options,
+  });
+}
+
+function callNames() {
+  return client.calls.map((call) => call.name);
+}
+
+describe("deployStack", () => {
+  it("creates a new stack", async () => {
+    const result = await deploy({ templateBody: bucketTemplate });
+
+    expect(result.outcome).toBe("created");
+    expect(result.stack!.StackStatus).toBe("CREATE_COMPLETE");
+    expect(result.stackId).toBe(client.getStack("test")!.StackId);
+    expect(result.outputs).toEqual({ BucketName: "test-Bucket" });
+    expect(result.changes).toHaveLength(1);
+    expect(callNames()).toContain("ExecuteChangeSet");
+  });
+
+  it("updates an existing stack", async () => {
+    client.addStack({ StackName: "test", TemplateBody: bucketTemplate });
+
+    const result = await deploy();
+
+    expect(result.outcome).toBe("updated");
+    expect(result.stack!.StackStatus).toBe("UPDATE_COMPLETE");
+    expect(result.changes.map((c) => c.ResourceChange!.Action)).toEqual([
+      "Add",
+    ]);
+  });
+
+  it("creates a stack left in REVIEW_IN_PROGRESS", async () => {
+    client.addStack({ StackName: "test", StackStatus: "REVIEW_IN_PROGRESS" });
+
+    const result = await deploy();
+
+    expect(result.outcome).toBe("created");
+  });
+
+  it("creates a stack that was deleted", async () => {
+    client.addStack({ StackName: "test", StackStatus: "DELETE_COMPLETE" });
+
+    const result = await deploy();
+
+    expect(result.outcome).toBe("created");
+    expect(logs).toContain("Stack was deleted, creating new...");
+  });
+
+  it("replaces a stack that failed to create", async () => {
+    client.addStack({ StackName: "test", StackStatus: "ROLLBACK_COMPLETE" });
+
+    const result = await deploy();
+
+    expect(result.outcome).toBe("created");
+    expect(callNames()).toContain("DeleteStack");
+  });
+
+  it("throws if a stack that failed to create can't be deleted", async () => {
+    client.addStack({
+      StackName: "test",
+      StackStatus: "ROLLBACK_COMPLETE",
+      TemplateBody: bucketTemplate,
+    });
+    client.scriptNextOperation("test", { failResource: "Bucket" });
+
+    await expect(deploy()).rejects.toThrow(InvalidCompleteStatusStackError);
+  });
+
+  it("waits for an operation in progress", async () => {
+    client.addStack({ StackName: "test", StackStatus: "UPDATE_IN_PROGRESS" });
+
+    const result = await deploy();
+
+    expect(result.outcome).toBe("updated");
+    expect(logs).toContain("Stack is in progress with status %O, waiting...");
+  });
+
+  it("rolls back a failed stack if confirmed", async () => {
+    client.addStack({
+      StackName: "test",
+      StackStatus: "UPDATE_FAILED",
+      DisableRollback: true,
+    });
+
+    const result = await deploy();
+
+    expect(result.outcome).toBe("updated");
+    expect(callNames()).toContain("RollbackStack");
+  });
+
+  it("retries a failed stack if rolling back is declined", async () => {
+    client.addStack({
+      StackName: "test",
+      StackStatus: "UPDATE_FAILED",
+      DisableRollback: true,
+    });
+    const prompts: string[] = [];
+
+    const result = await deploy({
+      prompt: (message) => (prompts.push(message), prompts.length > 1),
+    });
+
+    expect(result.outcome).toBe("updated");
+    expect(callNames()).not.toContain("RollbackStack");
+    expect(logs).toContain("Retrying failed stack...");
+  });
+
+  it("replaces a stack that failed to create with rollback disabled", async () => {
+    client.addStack({
+      StackName: "test",
+      StackStatus: "CREATE_FAILED",
+      DisableRollback: true,
+    });
+
+    const result = await deploy();
+
+    expect(result.outcome).toBe("created");
+    expect(callNames()).toEqual(
+      expect.arrayContaining(["RollbackStack", "DeleteStack"]),
+    );
+  });
+
+  it("continues a failed rollback if confirmed", async () => {
+    client.addStack({
+      StackName: "test",
+      StackStatus: "UPDATE_ROLLBACK_FAILED",
+    });
+
+    const result = await deploy({ resourcesToSkip: ["Bucket"] });
+
+    expect(result.outcome).toBe("updated");
+    expect(
+      client.calls.find((call) => call.name === "ContinueUpdateRollback")!
+        .input,
+    ).toMatchObject({ ResourcesToSkip: ["Bucket"] });
+  });
+
+  it("throws for a failed rollback if not confirmed", async () => {
+    client.addStack({
+      StackName: "test",
+      StackStatus: "UPDATE_ROLLBACK_FAILED",
+    });
+
+    await expect(deploy({ prompt: () => false })).rejects.toThrow(
+      InvalidStatusBeforeUpdateStackError,
+    );
+  });
+
+  it("throws for other statuses", async () => {
+    client.addStack({ StackName: "test", StackStatus: "DELETE_FAILED" });
+
+    await expect(deploy()).rejects.toThrow(InvalidStatusBeforeUpdateStackError);
+  });
+
+  it("requires exactly one template", async () => {
+    const error = await deploy({ templateUrl: "https://example.com" }).catch(
+      (e) => e,
+    );
+
+    expect(error).toBeInstanceOf(InvalidTemplateOptionsError);
+    expect(error.templateOptions).toEqual(["templateBody", "templateUrl"]);
+  });
+
+  it("throws when reusing previous values for a new stack", async () => {
+    await expect(
+      deploy({ templateBody: undefined, usePreviousTemplate: true }),
+    ).rejects.toThrow(NoPreviousValuesError);
+  });
+
+  it("reuses the previous template", async () => {
+    client.addStack({ StackName: "test", TemplateBody: queueTemplate });
+
+    const result = await deploy({
+      templateBody: undefined,
+      usePreviousTemplate: true,
+      tags: [{ Key: "env", Value: "test" }],
+    });
+
+    expect(result.outcome).toBe("updated");
+    expect(result.stack!.Tags).toEqual([{ Key: "env", Value: "test" }]);
+  });
+
+  it("masks NoEcho parameters of a template URL in the differences", async () => {
+    client.addStack({ StackName: "test", TemplateBody: bucketTemplate });
+    client.addTemplateUrl(
+      "https://bucket.s3.amazonaws.com/test.template",
+      JSON.stringify({
+        Parameters: { Password: { Type: "String", NoEcho: true } },
+        Resources: { Bucket: { Type: "AWS::S3::Bucket" } },
+      }),
+    );
+    const output: string[] = [];
+
+    await deploy({
+      logger: { log: (...args) => output.push(util.format(...args)) },
+      templateBody: undefined,
+      templateUrl: "https://bucket.s3.amazonaws.com/test.template",
+      parameters: [{ ParameterKey: "Password", ParameterValue: "secret" }],
+      showTemplateDiff: true,
+    });
+
+    const differences = output.find((line) =>
+      line.startsWith("Parameter differences:"),
+    );
+    expect(differences).toContain("****");
+    expect(output.join("\n")).not.toContain("secret");
+  });
+
+  it("deletes the change set when there are no changes", async () => {
+    client.addStack({ StackName: "test", TemplateBody: queueTemplate });
+    const onNoChanges = jest.fn();
+
+    const result = await deploy({ hooks: { onNoChanges } });
+
+    expect(result.outcome).toBe("no-changes");
+    expect(result.changeSetId).toBeNull();
+    expect(result.stack!.StackStatus).toBe("CREATE_COMPLETE");
+    expect(callNames()).toContain("DeleteChangeSet");
+    expect(onNoChanges).toHaveBeenCalled();
+  });
+
+  it("throws if the change set fails", async () => {
+    await expect(
+      deploy({
+        templateBody: JSON.stringify({
+          Resources: { Thing: { Type: "Unknown::Thing" } },
+        }),
+      }),
+    ).rejects.toThrow(ChangeSetNotAvailableError);
+  });
+
+  it("reads every page of changes", async () => {
+    client = new FakeCloudFormationClient({ changeSetPageSize: 2 });
+    const Resources: Record<string, { Type: string }> = {};
+    for (let i = 0; i < 5; i++) {
+      Resources[`Queue${i}`] = { Type: "AWS::SQS::Queue" };
+    }
+
+    const result = await deploy({
+      templateBody: JSON.stringify({ Resources }),
+    });
+
+    expect(result.changes).toHaveLength(5);
+    expect(
+      callNames().filter((name) => name === "DescribeChangeSet").length,
+    ).toBeGreaterThanOrEqual(3);
+  });
+
+  it("deletes the change set when declined", async () => {
+    client.addStack({ StackName: "test", TemplateBody: bucketTemplate });
+
+    const result = await deploy({ prompt: () => false });
+
+    expect(result.outcome).toBe("declined");
+    expect(result.stack!.StackStatus).toBe("CREATE_COMPLETE");
+    expect(callNames()).toContain("DeleteChangeSet");
+    expect(callNames()).not.toContain("ExecuteChangeSet");
+  });
+
+  it("doesn't return a declined new stack", async () => {
+    const result = await deploy({ prompt: () => false });
+
+    expect(result.outcome).toBe("declined");
+    expect(result.stackId).toBeNull();
+    expect(result.stack).toBeNull();
+  });
+
+  it("throws when the change set fails to execute", async () => {
+    client.addStack({ StackName: "test", TemplateBody: bucketTemplate });
+    client.scriptNextOperation("test", {
+      failResource: "Queue",
+      reason: "Queue already exists",
+    });
+    const onFailure = jest.fn();
+
+    const error = await deploy({ hooks: { onFailure } }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(InvalidCompleteStatusStackError);
+    expect(client.getStack("test")!.StackStatus).toBe(
+      "UPDATE_ROLLBACK_COMPLETE",
+    );
+    expect(onFailure).toHaveBeenCalledWith(error, expect.anything());
+  });
+
+  it("keeps the deploy error if the onFailure hook throws", async () => {
+    client.addStack({ StackName: "test", TemplateBody: bucketTemplate });
+    client.scriptNextOperation("test", { failResource: "Queue" });
+    const onFailure = jest.fn(() => {
+      throw new Error("hook failed");
+    });
+
+    const error = await deploy({ hooks: { onFailure } }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(InvalidCompleteStatusStackError);
+    expect(onFailure).toHaveBeenCalled();
+    expect(logs).toContain("onFailure hook failed: %s");
+  });
+
+  it("leaves a failed stack with rollback disabled", async () => {
+    client.addStack({ StackName: "test", TemplateBody: bucketTemplate });
+    client.scriptNextOperation("test", { failResource: "Queue" });
+
+    await expect(deploy({ disableRollback: true })).rejects.toThrow(
+      InvalidCompleteStatusStackError,
+    );
+    expect(client.getStack("test")!.StackStatus).toBe("UPDATE_FAILED");
+  });
+
+  it("retries throttled requests", async () => {
+    client.addStack({ StackName: "test", TemplateBody: bucketTemplate });
+    const throttled = new Error("Rate exceeded");
+    throttled.name = "Throttling";
+    client.failNextCall("DescribeChangeSet", throttled);
+
+    const result = await deploy();
+
+    expect(result.outcome).toBe("updated");
+  });
+
+  it("times out", async () => {
+    client.addStack({ StackName: "test", TemplateBody: bucketTemplate });
+
+    await expect(
+      deploy({ polling: { clock: client.clock, timeout: 1500 } }),
+    ).rejects.toThrow(DeployStackTimeoutError);
+  });
+
+  it("cancels the update when aborted", async () => {
+    client.addStack({ StackName: "test", TemplateBody: bucketTemplate });
+    client.scriptNextOperation("test", { resourceDuration: 10_000 });
+    const controller = new AbortController();
+
+    await expect(
+      deploy({
+        signal: controller.signal,
+        cancelOnAbort: true,
+        waiter: {
+          progress: ({ reason }) => {
+            if (reason === "EXECUTING") controller.abort();
+          },
+          complete: () => {},
+        },
+      }),
+    ).rejects.toThrow(DeployStackAbortedError);
+    expect(callNames()).toContain("CancelUpdateStack");
+    expect(client.getStack("test")!.StackStatus).toBe(
+      "UPDATE_ROLLBACK_COMPLETE",
+    );
+  });
+
+  it("checks the template and parameters before creating the change set", async () => {
+    const error = await deploy({
+      templateBody: JSON.stringify({
+        Resources: { Role: { Type: "AWS::IAM::Role" } },
+      }),
+      parameters: [{ ParameterKey: "Unknown", ParameterValue: "value" }],
+    }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(PreflightValidationError);
+    expect(error.problems).toEqual([
+      "Unknown parameter: Unknown",
+      expect.stringMatching(/^Missing capabilities: CAPABILITY_IAM/),
+    ]);
+    expect(callNames()).not.toContain("CreateChangeSet");
+  });
+
+  it("accepts CAPABILITY_NAMED_IAM for CAPABILITY_IAM", async () => {
+    const result = await deploy({
+      templateBody: JSON.stringify({
+        Resources: { Role: { Type: "AWS::IAM::Role" } },
+      }),
+      capabilities: [Capability.CAPABILITY_NAMED_IAM],
+    });
+
+    expect(result.outcome).toBe("created");
+  });
+
+  it("skips parameter patterns JavaScript can't parse", async () => {
+    const result = await deploy({
+      templateBody: JSON.stringify({
+        Parameters: { Name: { Type: "String", AllowedPattern: "[a-z]++" } },
+        Resources: {},
+      }),
+      parameters: [{ ParameterKey: "Name", ParameterValue: "name" }],
+    });
+
+    expect(result.outcome).toBe("created");
+  });
+
+  it("adds required capabilities", async () => {
+    const result = await deploy({
+      templateBody: JSON.stringify({
+        Resources: { Role: { Type: "AWS::IAM::Role" } },
+      }),
+      autoCapabilities: true,
+    });
+
+    expect(result.stack!.Capabilities).toEqual(["CAPABILITY_IAM"]);
+  });
+
+  it("throws for templates too large to pass inline", async () => {
+    await expect(
+      deploy({
+        templateBody: JSON.stringify({
+          Description: "x".repeat(60_000),
+          Resources: {},
+        }),
+      }),
+    ).rejects.toThrow(TemplateTooLargeError);
+  });
+
+  it("throws when resources are drifted", async () => {
+    client.addStack({
+      StackName: "test",
+      TemplateBody: bucketTemplate,
+      Drifts: [
+        {
+          StackId: "",
+          LogicalResourceId: "Bucket",
+          ResourceType: "AWS::S3::Bucket",
+          StackResourceDriftStatus: "MODIFIED",
+          Timestamp: new Date(),
+        },
+      ],
+    });
+
+    await expect(deploy({ driftCheck: "fail" })).rejects.toThrow(
+      StackDriftedError,
+    );
+  });
+
+  it("throws when drift detection fails", async () => {
+    client.addStack({
+      StackName: "test",
+      TemplateBody: bucketTemplate,
+      DriftDetectionFailure: "Failed to detect drift on resource [Bucket]",
+    });
+
+    await expect(deploy({ driftCheck: "fail" })).rejects.toThrow(
+      DriftDetectionFailedError,
+    );
+    expect(callNames()).not.toContain("CreateChangeSet");
+  });
+
+  it("times out detecting drift", async () => {
+    client.addStack({ StackName: "test", TemplateBody: bucketTemplate });
+
+    await expect(
+      deploy({
+        driftCheck: "fail",
+        polling: { clock: client.clock, timeout: 500 },
+      }),
+    ).rejects.toThrow(DeployStackTimeoutError);
+    expect(callNames()).toContain("DetectStackDrift");
+    expect(callNames()).not.toContain("DescribeStackDriftDetectionStatus");
+  });
+
+  it("retries throttled drift detection requests", async () => {
+    client.addStack({ StackName: "test", TemplateBody: bucketTemplate });
+    const throttled = new Error("Rate exceeded");
+    throttled.name = "Throttling";
+    client.failNextCall("DescribeStackDriftDetectionStatus", throttled);
+
+    const result = await deploy({ driftCheck: "fail" });
+
+    expect(result.outcome).toBe("updated");
+  });
+
+  it("only logs failed drift detection when warning", async () => {
+    client.addStack({
+      StackName: "test",
+      TemplateBody: bucketTemplate,
+      DriftDetectionFailure: "Failed to detect drift on resource [Bucket]",
+    });
+
+    const result = await deploy({ driftCheck: "warn" });
+
+    expect(result.outcome).toBe("updated");
+    expect(logs).toContain("Drift detection failed: %s");
+  });
+
+  it("deletes the change set if it violates the policy", async () => {
+    client.addStack({ StackName: "test", TemplateBody: queueTemplate });
+
+    await expect(
+      deploy({
+        templateBody: JSON.stringify({ Resources: {} }),
+        changeSetPolicy: { protectedResourceTypes: ["AWS::SQS::*"] },
+      }),
+    ).rejects.toThrow(ChangeSetPolicyViolationError);
+    expect(callNames()).toContain("DeleteChangeSet");
+  });
+
+  it("sets the stack policy after creating the stack", async () => {
+    await deploy({ stackPolicyBody: '{"Statement":[]}' });
+
+    expect(client.getStackPolicy("test")).toBe('{"Statement":[]}');
+  });
+
+  it("keeps the deploy error if restoring the stack policy fails", async () => {
+    client.addStack({ StackName: "test", TemplateBody: bucketTemplate });
+    client.scriptNextOperation("test", { failResource: "Queue" });
+    const send = client.send.bind(client);
+    let policyCalls = 0;
+    jest.spyOn(client, "send").mockImplementation(async (command) => {
+      if (
+        command.constructor.name === "SetStackPolicyCommand" &&
+        ++policyCalls === 2
+      ) {
+        throw new Error("Access denied");
+      }
+      return send(command);
+    });
+
+    await expect(
+      deploy({
+        stackPolicyBody: '{"Statement":[]}',
+        allowReplacement: ["Queue"],
+      }),
+    ).rejects.toThrow(InvalidCompleteStatusStackError);
+    expect(logs).toContain("Failed to restore the stack policy: %s");
+  });
+
+  it("passes the role, notifications and rollback triggers", async () => {
+    const rollbackConfiguration = {
+      RollbackTriggers: [
+        {
+          Arn: "arn:aws:cloudwatch:us-east-1:123456789012:alarm:errors",
+          Type: "AWS::CloudWatch::Alarm",
+        },
+      ],
+      MonitoringTimeInMinutes: 5,
+    };
+
+    const result = await deploy({
+      roleArn: "arn:aws:iam::123456789012:role/deploy",
+      notificationArns: ["arn:aws:sns:us-east-1:123456789012:events"],
+      rollbackConfiguration,
+    });
+
+    expect(result.stack).toMatchObject({
+      RoleARN: "arn:aws:iam::123456789012:role/deploy",
+      NotificationARNs: ["arn:aws:sns:us-east-1:123456789012:events"],
+      RollbackConfiguration: rollbackConfiguration,
+    });
+  });
+
+  it("rejects resource types that are not allowed", async () => {
+    await expect(deploy({ resourceTypes: ["AWS::S3::*"] })).rejects.toThrow(
+      "Resource types are not allowed",
+    );
+  });
+
+  it("enables termination protection after creating the stack", async () => {
+    const result = await deploy({ terminationProtection: true });
+
+    expect(result.stack!.EnableTerminationProtection).toBe(true);
+    expect(client.getStack("test")!.EnableTerminationProtection).toBe(true);
+    expect(callNames().slice(-2)).toEqual([
+      "DescribeStacks",
+      "UpdateTerminationProtection",
+    ]);
+  });
+
+  it("doesn't update termination protection that is already enabled", async () => {
+    client.addStack({
+      StackName: "test",
+      TemplateBody: bucketTemplate,
+      EnableTerminationProtection: true,
+    });
+
+    await deploy({ terminationProtection: true });
+
+    expect(callNames()).not.toContain("UpdateTerminationProtection");
+  });
+
+  it("enables termination protection for an unchanged stack", async () => {
+    client.addStack({ StackName: "test", TemplateBody: queueTemplate });
+
+    const result = await deploy({ terminationProtection: true });
+
+    expect(result.outcome).toBe("no-changes");
+    expect(result.stack!.EnableTerminationProtection).toBe(true);
+    expect(client.getStack("test")!.EnableTerminationProtection).toBe(true);
+  });
+
+  it("runs hooks in order", async () => {
+    const stages: string[] = [];
+    const hook = (stage: string) => () => {
+      stages.push(stage);
+    };
+
+    await deploy({
+      hooks: {
+        beforeChangeSet: hook("beforeChangeSet"),
+        changeSetReady: hook("changeSetReady"),
+        beforeExecute: hook("beforeExecute"),
+        afterExecute: hook("afterExecute"),
+      },
+    });
+
+    expect(stages).toEqual([
+      "beforeChangeSet",
+      "changeSetReady",
+      "beforeExecute",
+      "afterExecute",
+    ]);
+  });
+
+  it("deletes the change set when a hook vetoes", async () => {
+    await expect(
+      deploy({ hooks: { beforeExecute: () => false } }),
+    ).rejects.toThrow(DeployHookVetoedError);
+    expect(callNames()).toContain("DeleteChangeSet");
+    expect(callNames()).not.toContain("ExecuteChangeSet");
+  });
+});
+
+describe("pending change sets", () => {
+  beforeEach(async () => {
+    client.addStack({ StackName: "test", TemplateBody: bucketTemplate });
+    // Leaves a pending change set, as if the deploy was interrupted.
+    await planStack({
+      client,
+      logger: { log() {} },
+      changeFormatter: () => "",
+      polling: { clock: client.clock },
+      stackName: "test",
+      templateBody: queueTemplate,
+    });
+    client.calls = [];
+  });
+
+  it("reuses an identical pending change set", async () => {
+    const result = await deploy();
+
+    expect(result.outcome).toBe("updated");
+    expect(callNames()).not.toContain("CreateChangeSet");
+    expect(logs).toContain("Reusing change set %O");
+  });
+
+  it("creates a new change set if reusing is declined", async () => {
+    const prompts: string[] = [];
+
+    const result = await deploy({
+      prompt: (message) => (prompts.push(message), prompts.length > 1),
+    });
+
+    expect(prompts[0]).toMatch(/^Found an identical pending change set/);
+    expect(result.outcome).toBe("updated");
+    expect(callNames()).toContain("CreateChangeSet");
+  });
+
+  it("doesn't reuse change sets with different inputs", async () => {
+    await deploy({ tags: [{ Key: "env", Value: "test" }] });
+
+    expect(callNames()).toContain("CreateChangeSet");
+  });
+
+  it("masks NoEcho values in the description and doesn't reuse them", async () => {
+    const templateBody = JSON.stringify({
+      Parameters: { Password: { Type: "String", NoEcho: true } },
+      Resources: { Bucket: { Type: "AWS::S3::Bucket" } },
+    });
+    const descriptions = () =>
+      client.calls
+        .filter((call) => call.name === "CreateChangeSet")
+        .map((call) => (call.input as CreateChangeSetInput).Description);
+    await planStack({
+      client,
+      logger: { log() {} },
+      changeFormatter: () => "",
+      polling: { clock: client.clock },
+      stackName: "test",
+      templateBody,
+      parameters: [{ ParameterKey: "Password", ParameterValue: "secret" }],
+    });
+
+    await deploy({
+      templateBody,
+      parameters: [{ ParameterKey: "Password", ParameterValue: "other" }],
+    });
+
+    expect(logs).not.toContain("Reusing change set %O");
+    const [planned, deployed] = descriptions();
+    expect(planned).toMatch(/^deploy-stack /);
+    expect(deployed).toBe(planned);
+  });
+});
+
+describe("importing resources", () => {
+  const importTemplate = JSON.stringify({
+    Resources: {
+      Bucket: { Type: "AWS::S3::Bucket" },
+      Table: {
+        Type: "AWS::DynamoDB::Table",
+        DeletionPolicy: "Retain",
+        Properties: { TableName: "orders" },
+      },
+    },
+    Outputs: { BucketName: { Value: { Ref: "Bucket" } } },
+  });
+  const importResources = [
+    {
+      ResourceType: "AWS::DynamoDB::Table",
+      LogicalResourceId: "Table",
+      ResourceIdentifier: { TableName: "orders" },
+    },
+  ];
+
+  it("imports resources into an existing stack", async () => {
+    client.addStack({ StackName: "test", TemplateBody: bucketTemplate });
+
+    const result = await deploy({
+      templateBody: importTemplate,
+      importResources,
+    });
+
+    expect(result.outcome).toBe("imported");
+    expect(result.stack!.StackStatus).toBe("IMPORT_COMPLETE");
+    expect(result.changes.map((c) => c.ResourceChange)).toEqual([
+      expect.objectContaining({
+        Action: "Import",
+        LogicalResourceId: "Table",
+        PhysicalResourceId: "orders",
+      }),
+    ]);
+    expect(
+      client.calls.find((c) => c.name === "CreateChangeSet")!.input,
+    ).toMatchObject({
+      ChangeSetType: "IMPORT",
+      ResourcesToImport: importResources,
+    });
+  });
+
+  it("imports resources into a new stack", async () => {
+    const result = await deploy({
+      templateBody: JSON.stringify({
+        Resources: { Table: JSON.parse(importTemplate).Resources.Table },
+      }),
+      importResources,
+    });
+
+    expect(result.outcome).toBe("imported");
+    expect(result.stack!.StackStatus).toBe("IMPORT_COMPLETE");
+  });
+
+  it("checks the resources against the template before creating the change set", async () => {
+    const error = await deploy({
+      templateBody: bucketTemplate,
+      importResources: [
+        ...importResources,
+        {
+          ResourceType: "AWS::SQS::Queue",
+          LogicalResourceId: "Bucket",
+          ResourceIdentifier: { QueueUrl: "https://queue" },
+        },
+      ],
+    }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(InvalidImportResourcesError);
+    expect(error.problems).toEqual([
+      "Resource Table is not in the template",
+      "Resource Bucket has type AWS::S3::Bucket in the template, not AWS::SQS::Queue",
+      "Resource Bucket must have DeletionPolicy: Retain to be imported",
+    ]);
+    expect(callNames()).not.toContain("CreateChangeSet");
+  });
+
+  it("requires a template to import with", async () => {
+    client.addStack({ StackName: "test", TemplateBody: importTemplate });
+
+    await expect(
+      deploy({
+        templateBody: undefined,
+        usePreviousTemplate: true,
+        importResources,
+      }),
+    ).rejects.toThrow(InvalidImportResourcesError);
+    expect(callNames()).not.toContain("CreateChangeSet");
+  });
+
+  it("replaces a new stack after a failed import", async () => {
+    const templateBody = JSON.stringify({
+      Resources: { Table: JSON.parse(importTemplate).Resources.Table },
+    });
+    client.scriptNextOperation("test", { failResource: "Table" });
+    await expect(deploy({ templateBody, importResources })).rejects.toThrow(
+      InvalidCompleteStatusStackError,
+    );
+    expect(client.getStack("test")!.StackStatus).toBe(
+      "IMPORT_ROLLBACK_COMPLETE",
+    );
+
+    const result = await deploy({ templateBody, importResources });
+
+    expect(result.outcome).toBe("imported");
+    expect(logs).toContain("Stack failed to create, replacing...");
+    expect(callNames()).toContain("DeleteStack");
+  });
+
+  it("updates an existing stack after a failed import", async () => {
+    client.addStack({ StackName: "test", TemplateBody: bucketTemplate });
+    client.scriptNextOperation("test", { failResource: "Table" });
+    await expect(
+      deploy({ templateBody: importTemplate, importResources }),
+    ).rejects.toThrow(InvalidCompleteStatusStackError);
+    client.calls = [];
+
+    const result = await deploy();
+
+    expect(result.outcome).toBe("updated");
+    expect(callNames()).not.toContain("DeleteStack");
+  });
+
+  it("throws for a failed import rollback", async () => {
+    client.addStack({
+      StackName: "test",
+      TemplateBody: bucketTemplate,
+      StackStatus: "IMPORT_ROLLBACK_FAILED",
+    });
+
+    await expect(deploy()).rejects.toThrow(InvalidStatusBeforeUpdateStackError);
+    expect(callNames()).not.toContain("ContinueUpdateRollback");
+  });
+
+  it("applies a planned import", async () => {
+    client.addStack({ StackName: "test", TemplateBody: bucketTemplate });
+    const options = {
+      client,
+      logger: { log() {} },
+      changeFormatter: () => "",
+      polling: { clock: client.clock },
+      stackName: "test",
+      templateBody: importTemplate,
+      importResources,
+    };
+
+    const plan = await planStack(options);
+    const stack = await applyChangeSet({
+      ...options,
+      changeSetId: plan!.changeSetId,
+    });
+
+    expect(plan!.changeSetType).toBe("IMPORT");
+    expect(stack.StackStatus).toBe("IMPORT_COMPLETE");
+  });
+});
+
+describe("planStack and applyChangeSet", () => {
+  it("executes the planned change set", async () => {
+    client.addStack({ StackName: "test", TemplateBody: bucketTemplate });
+    const options = {
+      client,
+      logger: { log() {} },
+      changeFormatter: () => "",
+      polling: { clock: client.clock },
+      stackName: "test",
+      templateBody: queueTemplate,
+    };
+
+    const plan = await planStack(options);
+    const stack = await applyChangeSet({
+      ...options,
+      changeSetId: plan!.changeSetId,
+    });
+
+    expect(stack.StackStatus).toBe("UPDATE_COMPLETE");
+  });
+
+  it("throws if the stack was updated after planning", async () => {
+    client.addStack({ StackName: "test", TemplateBody: bucketTemplate });
+    const options = {
+      client,
+      logger: { log() {} },
+      changeFormatter: () => "",
+      polling: { clock: client.clock },
+      stackName: "test",
+      templateBody: queueTemplate,
+    };
+
+    const plan = await planStack(options);
+    await deploy({ templateBody: JSON.stringify({ Resources: {} }) });
+
+    await expect(
+      applyChangeSet({ ...options, changeSetId: plan!.changeSetId }),
+    ).rejects.toThrow(ChangeSetNotAvailableError);
+  });
+});
@@ -0,0 +1,212 @@
+import { Parameter } from "@aws-sdk/client-cloudformation";
+
+import deployStacks, { StackDeployment } from "../src/deployStacks";
+import {
+  DeployStacksFailedError,
+  InvalidCompleteStatusStackError,
+  InvalidConcurrencyError,
+  StackDependencyCycleError,
+  StackDependencyFailedError,
+} from "../src/errors";
+import { FakeCloudFormationClient } from "../src/fakeCloudFormationClient";
+
+const networkTemplate = JSON.stringify({
+  Resources: { Bucket: { Type: "AWS::S3::Bucket" } },
+  Outputs: { BucketName: { Value: { Ref: "Bucket" } } },
+});
+
+const apiTemplate = JSON.stringify({
+  Parameters: { BucketName: { Type: "String" } },
+  Resources: { Queue: { Type: "AWS::SQS::Queue" } },
+});
+
+let client: FakeCloudFormationClient;
+let prompts: string[];
+let network: StackDeployment;
+let api: StackDeployment;
+
+beforeEach(() => {
+  client = new FakeCloudFormationClient();
+  prompts = [];
+  network = stack("network", networkTemplate);
+  api = stack("api", apiTemplate, [
+    { ParameterKey: "BucketName", ParameterValue: "${network.BucketName}" },
+  ]);
+});
+
+function stack(
+  stackName: string,
+  templateBody: string,
+  parameters?: Parameter[],
+): StackDeployment {
+  return { client, stackName, templateBody, parameters };
+}
+
+function deploy(
+  stacks: Record<string, StackDeployment>,
+  prompt: (message: string) => boolean = () => true,
+) {
+  return deployStacks({
+    logger: { log() {} },
+    prompt: (message) => (prompts.push(message), prompt(message)),
+    changeFormatter: () => "",
+    polling: { clock: client.clock },
+    stacks,
+  });
+}
+
+function callNames() {
+  return client.calls.map((call) => call.name);
+}
+
+describe("deployStacks", () => {
+  it("deploys stacks after the stacks they reference", async () => {
+    const result = await deploy({ api, network });
+
+    expect(result.outcome).toBe("deployed");
+    expect(result.stacks.network.outcome).toBe("created");
+    expect(result.stacks.api.outcome).toBe("created");
+    expect(client.getStack("api")!.Parameters).toEqual([
+      { ParameterKey: "BucketName", ParameterValue: "network-Bucket" },
+    ]);
+  });
+
+  it("prompts once for stacks planned before the prompt", async () => {
+    client.addStack({
+      StackName: "network",
+      TemplateBody: networkTemplate,
+      Outputs: [{ OutputKey: "BucketName", OutputValue: "network-Bucket" }],
+    });
+
+    const result = await deploy({
+      network,
+      api,
+      queue: stack("queue", apiTemplate, [
+        { ParameterKey: "BucketName", ParameterValue: "bucket" },
+      ]),
+    });
+
+    expect(result.outcome).toBe("deployed");
+    expect(result.stacks.network.outcome).toBe("no-changes");
+    expect(prompts).toEqual(["Deploy?"]);
+  });
+
+  it("prompts again for stacks planned after the prompt", async () => {
+    const result = await deploy({ network, api });
+
+    expect(result.stacks.api.outcome).toBe("created");
+    expect(prompts).toEqual(["Deploy?", "Deploy api?"]);
+  });
+
+  it("plans other stacks while prompting for a stack", async () => {
+    const queue = stack("queue", apiTemplate, [
+      { ParameterKey: "BucketName", ParameterValue: "${network.BucketName}" },
+    ]);
+    const plannedStacks = () =>
+      client.calls
+        .filter((call) => call.name === "CreateChangeSet")
+        .map((call) => (call.input as { StackName: string }).StackName);
+    let plannedWhilePrompting: string[] = [];
+
+    const result = await deployStacks({
+      logger: { log() {} },
+      prompt: async (message) => {
+        prompts.push(message);
+        // Waits for the other stack to plan, which needs the only work slot.
+        for (let i = 0; i < 100 && message === "Deploy api?"; i++) {
+          if (plannedStacks().includes("queue")) {
+            break;
+          }
+          await new Promise((resolve) => setImmediate(resolve));
+        }
+        if (message === "Deploy api?") {
+          plannedWhilePrompting = plannedStacks();
+        }
+        return true;
+      },
+      changeFormatter: () => "",
+      polling: { clock: client.clock },
+      concurrency: 1,
+      stacks: { network, api, queue },
+    });
+
+    expect(result.stacks.queue.outcome).toBe("created");
+    expect(prompts).toEqual(["Deploy?", "Deploy api?", "Deploy queue?"]);
+    expect(plannedWhilePrompting).toEqual(["network", "api", "queue"]);
+  });
+
+  it("doesn't deploy stacks planned after the prompt if declined", async () => {
+    const result = await deploy(
+      { network, api },
+      (message) => message === "Deploy?",
+    );
+
+    expect(result.outcome).toBe("deployed");
+    expect(result.stacks.network.outcome).toBe("created");
+    expect(result.stacks.api.outcome).toBe("declined");
+    expect(client.getStack("api")!.StackStatus).toBe("REVIEW_IN_PROGRESS");
+    expect(callNames().filter((name) => name === "ExecuteChangeSet")).toEqual([
+      "ExecuteChangeSet",
+    ]);
+  });
+
+  it("deletes the change sets if declined", async () => {
+    const result = await deploy({ network }, () => false);
+
+    expect(result.outcome).toBe("declined");
+    expect(callNames()).toContain("DeleteChangeSet");
+    expect(callNames()).not.toContain("ExecuteChangeSet");
+  });
+
+  it("skips the stacks referencing a failed stack", async () => {
+    client.scriptNextOperation("network", { failResource: "Bucket" });
+
+    const error = await deploy({
+      network,
+      api,
+      queue: stack("queue", apiTemplate, [
+        { ParameterKey: "BucketName", ParameterValue: "bucket" },
+      ]),
+    }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(DeployStacksFailedError);
+    expect(error.errors.network).toBeInstanceOf(
+      InvalidCompleteStatusStackError,
+    );
+    expect(error.errors.api).toBeInstanceOf(StackDependencyFailedError);
+    expect(error.stacks.queue.outcome).toBe("created");
+  });
+
+  it("leaves references to other IDs as is", async () => {
+    const result = await deploy({
+      queue: stack("queue", apiTemplate, [
+        { ParameterKey: "BucketName", ParameterValue: "${AWS.Region}-bucket" },
+      ]),
+    });
+
+    expect(result.stacks.queue.outcome).toBe("created");
+    expect(client.getStack("queue")!.Parameters).toEqual([
+      { ParameterKey: "BucketName", ParameterValue: "${AWS.Region}-bucket" },
+    ]);
+  });
+
+  it("throws for a concurrency below 1", async () => {
+    await expect(
+      deployStacks({ concurrency: 0, stacks: { network } }),
+    ).rejects.toThrow(InvalidConcurrencyError);
+    expect(client.calls).toEqual([]);
+  });
+
+  it("throws for stacks referencing each other", async () => {
+    await expect(
+      deploy({
+        a: stack("a", apiTemplate, [
+          { ParameterKey: "BucketName", ParameterValue: "${b.BucketName}" },
+        ]),
+        b: stack("b", apiTemplate, [
+          { ParameterKey: "BucketName", ParameterValue: "${a.BucketName}" },
+        ]),
+      }),
+    ).rejects.toThrow(StackDependencyCycleError);
+  });
+});
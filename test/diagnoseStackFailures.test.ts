@@ -0,0 +1,115 @@
+import deployStack, {
+  DeployStackOptions,
+  InvalidCompleteStatusStackError,
+} from "../src/deployStack";
+import diagnoseStackFailures, {
+  formatStackFailures,
+} from "../src/diagnoseStackFailures";
+import { FakeCloudFormationClient } from "../src/fakeCloudFormationClient";
+
+const template = JSON.stringify({
+  Resources: {
+    Bucket: { Type: "AWS::S3::Bucket" },
+    Queue: { Type: "AWS::SQS::Queue" },
+    Topic: { Type: "AWS::SNS::Topic" },
+  },
+});
+
+let client: FakeCloudFormationClient;
+
+beforeEach(() => {
+  client = new FakeCloudFormationClient();
+});
+
+function deploy(options: Partial<DeployStackOptions> = {}) {
+  return deployStack({
+    client,
+    logger: { log() {} },
+    prompt: () => true,
+    changeFormatter: () => "",
+    polling: { clock: client.clock },
+    stackName: "test",
+    templateBody: template,
+    ...options,
+  });
+}
+
+describe("diagnoseStackFailures", () => {
+  it("attaches the root cause to the error, without cancelled resources", async () => {
+    client.scriptNextOperation("test", {
+      failResource: "Queue",
+      reason: "test-Queue already exists",
+      cancelResources: ["Topic"],
+    });
+
+    const error = await deploy().catch((e) => e);
+
+    expect(error).toBeInstanceOf(InvalidCompleteStatusStackError);
+    expect(error.failures).toEqual([
+      {
+        path: [],
+        logicalId: "Queue",
+        resourceType: "AWS::SQS::Queue",
+        status: "CREATE_FAILED",
+        reason: "test-Queue already exists",
+        timestamp: expect.any(Date),
+        hint: expect.stringMatching(/^A resource with the same name exists/),
+      },
+    ]);
+  });
+
+  it("only includes the latest operation", async () => {
+    client.addStack({ StackName: "test", TemplateBody: template });
+    client.scriptNextOperation("test", {
+      failResource: "Bucket",
+      reason: "Bucket failed",
+    });
+    await expect(
+      deploy({ templateBody: JSON.stringify({ Resources: {} }) }),
+    ).rejects.toThrow();
+    client.scriptNextOperation("test", {
+      failResource: "Key",
+      reason: "Resource limit exceeded",
+    });
+
+    const error = await deploy({
+      templateBody: JSON.stringify({
+        Resources: {
+          ...JSON.parse(template).Resources,
+          Key: { Type: "AWS::KMS::Key" },
+        },
+      }),
+    }).catch((e) => e);
+
+    expect(formatStackFailures(error.failures)).toBe(
+      [
+        "  Key (AWS::KMS::Key): CREATE_FAILED: Resource limit exceeded",
+        "    Hint: An account limit was reached. Delete unused resources, or request an increase in Service Quotas.",
+      ].join("\n"),
+    );
+  });
+
+  it("falls back to the reason the stack rolled back", async () => {
+    client.addStack({ StackName: "test" });
+    client.scriptNextOperation("test", {
+      rollbackReason: "Rollback triggered by alarm: errors",
+    });
+
+    const error = await deploy().catch((e) => e);
+
+    expect(error.failures).toMatchObject([
+      {
+        logicalId: "test",
+        status: "UPDATE_ROLLBACK_IN_PROGRESS",
+        reason: "Rollback triggered by alarm: errors",
+        hint: expect.stringMatching(/^A rollback alarm went into ALARM/),
+      },
+    ]);
+  });
+
+  it("returns nothing for a stack without failures", async () => {
+    await deploy();
+
+    expect(await diagnoseStackFailures(client, "test")).toEqual([]);
+  });
+});
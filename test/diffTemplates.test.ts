@@ -0,0 +1,29 @@
+import diffTemplates from "../src/diffTemplates";
+import parseTemplate from "../src/parseTemplate";
+
+describe("diffTemplates", () => {
+  it("compares unquoted YAML dates as strings", () => {
+    const deployed = parseTemplate(
+      JSON.stringify({
+        AWSTemplateFormatVersion: "2010-09-09",
+        Resources: { Bucket: { Type: "AWS::S3::Bucket" } },
+      }),
+    );
+    const local = parseTemplate(`\
+AWSTemplateFormatVersion: 2010-09-09
+Resources:
+  Bucket:
+    Type: AWS::S3::Bucket
+    Properties:
+      BucketName: !Sub \${AWS::StackName}-bucket
+`);
+
+    expect(diffTemplates(deployed, local)).toEqual([
+      {
+        path: "Resources.Bucket.Properties",
+        kind: "added",
+        after: { BucketName: { "Fn::Sub": "${AWS::StackName}-bucket" } },
+      },
+    ]);
+  });
+});
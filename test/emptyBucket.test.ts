@@ -0,0 +1,29 @@
+import * as S3 from "@aws-sdk/client-s3";
+
+import emptyBucket from "../src/emptyBucket";
+import { EmptyBucketFailedError } from "../src/errors";
+
+describe("emptyBucket", () => {
+  it("throws with the objects that failed to delete", async () => {
+    const client = new S3.S3Client({ region: "us-east-1" });
+    jest
+      .spyOn(client, "send")
+      .mockImplementation(async (command) =>
+        command instanceof S3.ListObjectVersionsCommand
+          ? { Versions: [{ Key: "a", VersionId: "1" }] }
+          : {
+              Errors: [{ Key: "a", VersionId: "1", Message: "Access Denied" }],
+            },
+      );
+
+    const error = await emptyBucket(client, "bucket", { log() {} }).catch(
+      (e) => e,
+    );
+
+    expect(error).toBeInstanceOf(EmptyBucketFailedError);
+    expect(error.bucket).toBe("bucket");
+    expect(error.errors).toEqual([
+      { Key: "a", VersionId: "1", Message: "Access Denied" },
+    ]);
+  });
+});
@@ -0,0 +1,126 @@
+import generateImportResources, {
+  checkImportResources,
+} from "../src/importResources";
+import { FakeCloudFormationClient } from "../src/fakeCloudFormationClient";
+import parseTemplate from "../src/parseTemplate";
+
+const template = JSON.stringify({
+  Resources: {
+    Bucket: {
+      Type: "AWS::S3::Bucket",
+      DeletionPolicy: "Retain",
+      Properties: { BucketName: "my-bucket" },
+    },
+    Logs: {
+      Type: "AWS::S3::Bucket",
+      DeletionPolicy: "Retain",
+      Properties: { BucketName: { "Fn::Sub": "${AWS::StackName}-logs" } },
+    },
+    Table: {
+      Type: "AWS::DynamoDB::Table",
+      DeletionPolicy: "Retain",
+      Properties: { TableName: "orders" },
+    },
+  },
+});
+
+let client: FakeCloudFormationClient;
+
+beforeEach(() => {
+  client = new FakeCloudFormationClient();
+});
+
+describe("generateImportResources", () => {
+  it("generates the resources with literal identifiers", async () => {
+    const result = await generateImportResources({
+      client,
+      templateBody: template,
+    });
+
+    expect(result).toEqual({
+      resources: [
+        {
+          ResourceType: "AWS::S3::Bucket",
+          LogicalResourceId: "Bucket",
+          ResourceIdentifier: { BucketName: "my-bucket" },
+        },
+        {
+          ResourceType: "AWS::DynamoDB::Table",
+          LogicalResourceId: "Table",
+          ResourceIdentifier: { TableName: "orders" },
+        },
+      ],
+      unmatched: [],
+    });
+  });
+
+  it("only matches the physical IDs", async () => {
+    const result = await generateImportResources({
+      client,
+      templateBody: template,
+      physicalIds: ["orders", "my-app-logs"],
+    });
+
+    expect(result.resources.map((r) => r.LogicalResourceId)).toEqual(["Table"]);
+    expect(result.unmatched).toEqual(["my-app-logs"]);
+  });
+
+  it("skips resources already in the stack", async () => {
+    client.addStack({
+      StackName: "test",
+      TemplateBody: JSON.stringify({
+        Resources: { Bucket: JSON.parse(template).Resources.Bucket },
+      }),
+    });
+
+    const result = await generateImportResources({
+      client,
+      templateBody: template,
+      stackName: "test",
+    });
+
+    expect(result.resources.map((r) => r.LogicalResourceId)).toEqual(["Table"]);
+  });
+
+  it("generates resources that can be imported", async () => {
+    const { resources } = await generateImportResources({
+      client,
+      templateBody: template,
+    });
+
+    expect(checkImportResources(parseTemplate(template), resources)).toEqual(
+      [],
+    );
+  });
+});
+
+describe("checkImportResources", () => {
+  it("requires DeletionPolicy: Retain", () => {
+    const problems = checkImportResources(
+      parseTemplate(
+        JSON.stringify({
+          Resources: {
+            Bucket: { Type: "AWS::S3::Bucket", DeletionPolicy: "Delete" },
+          },
+        }),
+      ),
+      [
+        {
+          ResourceType: "AWS::S3::Bucket",
+          LogicalResourceId: "Bucket",
+          ResourceIdentifier: { BucketName: "my-bucket" },
+        },
+        {
+          ResourceType: "AWS::S3::Bucket",
+          LogicalResourceId: "Bucket",
+          ResourceIdentifier: { BucketName: "my-bucket" },
+        },
+      ],
+    );
+
+    expect(problems).toEqual([
+      "Resource Bucket must have DeletionPolicy: Retain to be imported",
+      "Resource Bucket is imported more than once",
+    ]);
+  });
+});
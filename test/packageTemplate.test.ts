@@ -0,0 +1,77 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import * as S3 from "@aws-sdk/client-s3";
+
+import { ArtifactNotFoundError } from "../src/errors";
+import packageTemplate from "../src/packageTemplate";
+import parseTemplate from "../src/parseTemplate";
+
+let directory: string;
+let client: S3.S3Client;
+
+beforeEach(() => {
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), "package-template-"));
+  fs.mkdirSync(path.join(directory, "code"));
+  fs.writeFileSync(path.join(directory, "code", "index.js"), "");
+  client = new S3.S3Client({ region: "us-east-1" });
+  // Every artifact is already uploaded.
+  jest.spyOn(client, "send").mockImplementation(async () => ({}));
+});
+
+afterEach(() => {
+  fs.rmSync(directory, { recursive: true });
+});
+
+function packageIn(templateBody: string) {
+  return packageTemplate(templateBody, {
+    bucket: { client, bucket: "artifacts" },
+    directory,
+    logger: { log() {} },
+  });
+}
+
+describe("packageTemplate", () => {
+  it("keeps unquoted dates as strings", async () => {
+    const packaged = await packageIn(`\
+AWSTemplateFormatVersion: 2010-09-09
+Resources:
+  Function:
+    Type: AWS::Lambda::Function
+    Properties:
+      Code: code
+  Policy:
+    Type: AWS::IAM::ManagedPolicy
+    Properties:
+      PolicyDocument:
+        Version: 2012-10-17
+        Statement: []
+`);
+
+    const template = parseTemplate(packaged);
+    expect(template.AWSTemplateFormatVersion).toBe("2010-09-09");
+    expect(template.Resources!.Function.Properties!.Code).toEqual({
+      S3Bucket: "artifacts",
+      S3Key: expect.stringMatching(/\.zip$/),
+    });
+    expect(template.Resources!.Policy.Properties!.PolicyDocument).toEqual({
+      Version: "2012-10-17",
+      Statement: [],
+    });
+  });
+
+  it("throws for a missing artifact path", async () => {
+    const error = await packageIn(`\
+Resources:
+  Function:
+    Type: AWS::Lambda::Function
+    Properties:
+      Code: missing
+`).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ArtifactNotFoundError);
+    expect(error.property).toBe("Function.Code");
+    expect(error.artifactPath).toBe(path.join(directory, "missing"));
+  });
+});
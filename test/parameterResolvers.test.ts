@@ -0,0 +1,44 @@
+import { CloudFormationClient } from "@aws-sdk/client-cloudformation";
+
+import resolveParameterValues, {
+  cacheParameterResolvers,
+} from "../src/parameterResolvers";
+
+const client = new CloudFormationClient({ region: "us-east-1" });
+
+describe("cacheParameterResolvers", () => {
+  it("only resolves each value once for the cached schemes", async () => {
+    const prompt = jest.fn((message: string) => `${message}-value`);
+    const stack = jest.fn((reference: string) => `${reference}-output`);
+    const resolvers = cacheParameterResolvers({ prompt, stack }, ["prompt"]);
+    const parameters = [
+      { ParameterKey: "Password", ParameterValue: "prompt:password" },
+      { ParameterKey: "Other", ParameterValue: "prompt:password" },
+      { ParameterKey: "VpcId", ParameterValue: "stack:network.VpcId" },
+    ];
+    const logger = { log() {} };
+
+    const first = await resolveParameterValues(
+      parameters,
+      resolvers,
+      client,
+      logger,
+    );
+    const second = await resolveParameterValues(
+      parameters,
+      resolvers,
+      client,
+      logger,
+    );
+
+    expect(second).toEqual(first);
+    expect(first.map((parameter) => parameter.ParameterValue)).toEqual([
+      "password-value",
+      "password-value",
+      "network.VpcId-output",
+    ]);
+    // Once for each parameter key.
+    expect(prompt).toHaveBeenCalledTimes(2);
+    expect(stack).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,87 @@
+import * as CloudFormation from "@aws-sdk/client-cloudformation";
+
+import { planStack } from "../src/deployStack";
+import { FakeCloudFormationClient } from "../src/fakeCloudFormationClient";
+import pruneChangeSets from "../src/pruneChangeSets";
+
+const template = JSON.stringify({
+  Resources: { Bucket: { Type: "AWS::S3::Bucket" } },
+});
+
+const hour = 60 * 60 * 1000;
+
+let client: FakeCloudFormationClient;
+
+beforeEach(() => {
+  client = new FakeCloudFormationClient();
+});
+
+function plan(templateBody = template) {
+  return planStack({
+    client,
+    logger: { log() {} },
+    changeFormatter: () => "",
+    polling: { clock: client.clock },
+    stackName: "test",
+    templateBody,
+  });
+}
+
+function prune(prompt = () => true) {
+  return pruneChangeSets({
+    client,
+    logger: { log() {} },
+    prompt,
+    olderThan: 24 * hour,
+    clock: client.clock,
+    stackName: "test",
+  });
+}
+
+async function listChangeSetIds() {
+  const { Summaries } = await client.send(
+    new CloudFormation.ListChangeSetsCommand({ StackName: "test" }),
+  );
+  return Summaries!.map((summary) => summary.ChangeSetId);
+}
+
+describe("pruneChangeSets", () => {
+  it("deletes change sets older than the age", async () => {
+    client.addStack({ StackName: "test" });
+    const old = await plan();
+    client.clock.advance(25 * hour);
+    const recent = await plan(
+      JSON.stringify({ Resources: { Queue: { Type: "AWS::SQS::Queue" } } }),
+    );
+
+    const deleted = await prune();
+
+    expect(deleted.map((changeSet) => changeSet.ChangeSetId)).toEqual([
+      old!.changeSetId,
+    ]);
+    expect(await listChangeSetIds()).toEqual([recent!.changeSetId]);
+  });
+
+  it("deletes nothing if declined", async () => {
+    client.addStack({ StackName: "test" });
+    await plan();
+    client.clock.advance(25 * hour);
+
+    expect(await prune(() => false)).toEqual([]);
+    expect(await listChangeSetIds()).toHaveLength(1);
+  });
+
+  it("deletes a REVIEW_IN_PROGRESS stack left without change sets", async () => {
+    await plan();
+    client.clock.advance(25 * hour);
+
+    await prune();
+    client.clock.advance(hour);
+
+    expect(client.getStack("test")).toBeUndefined();
+  });
+
+  it("does nothing if the stack does not exist", async () => {
+    expect(await prune()).toEqual([]);
+  });
+});